@@ -0,0 +1,4 @@
+// Loaded before every test file: keep the logger from writing log files or console noise
+jest.mock('./src/utils/logger', () => ({
+  logger: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
@@ -0,0 +1,167 @@
+import { Response, NextFunction } from 'express';
+import { Attachment } from '../models/Attachment';
+import { Task, ITask } from '../models/Task';
+import { UserRole } from '../models/User';
+import { AppError } from '../utils/AppError';
+import { AuthRequest } from '../middleware/auth';
+import { findVisibleTask, taskEditFilter } from '../services/taskAccess';
+import { storeAttachment, removeAttachment } from '../services/attachments';
+import { getStorageDriver } from '../services/storage';
+
+// Runs before the upload is buffered, so files are never read for tasks the user cannot edit
+export const authorizeUpload = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    // Uploading requires the same access as editing the task
+    const task = await Task.findOne({
+      _id: req.params.id,
+      ...(await taskEditFilter(req.user)),
+    });
+
+    if (!task) {
+      return next(new AppError('Task not found', 404));
+    }
+
+    res.locals.task = task;
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const uploadAttachment = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    if (!req.file) {
+      return next(new AppError('No file uploaded', 400));
+    }
+
+    // Loaded by authorizeUpload
+    const task = res.locals.task as ITask;
+
+    const attachment = await storeAttachment(task._id, req.user._id, req.file);
+    await attachment.populate('uploadedBy', 'username firstName lastName');
+
+    res.status(201).json({
+      success: true,
+      message: 'Attachment uploaded successfully',
+      data: { attachment },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getAttachments = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    const task = await findVisibleTask(req.user, req.params.id);
+    if (!task) {
+      return next(new AppError('Task not found', 404));
+    }
+
+    const attachments = await Attachment.find({ task: task._id })
+      .populate('uploadedBy', 'username firstName lastName')
+      .sort({ createdAt: -1 });
+
+    res.json({
+      success: true,
+      data: { attachments },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const downloadAttachment = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    const task = await findVisibleTask(req.user, req.params.id);
+    if (!task) {
+      return next(new AppError('Task not found', 404));
+    }
+
+    const attachment = await Attachment.findOne({
+      _id: req.params.attachmentId,
+      task: task._id,
+    }).select('+storageKey');
+
+    if (!attachment) {
+      return next(new AppError('Attachment not found', 404));
+    }
+
+    let stream;
+    try {
+      stream = await getStorageDriver().getStream(attachment.storageKey);
+    } catch {
+      return next(new AppError('Attachment file is missing', 404));
+    }
+
+    // The declared type comes from the uploader, so files are always served as opaque downloads
+    res.setHeader('Content-Type', 'application/octet-stream');
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    res.setHeader('Content-Length', attachment.size.toString());
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename*=UTF-8''${encodeURIComponent(attachment.originalName)}`
+    );
+
+    stream.on('error', next);
+    stream.pipe(res);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const deleteAttachment = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    const task = await findVisibleTask(req.user, req.params.id);
+    if (!task) {
+      return next(new AppError('Task not found', 404));
+    }
+
+    const attachment = await Attachment.findOne({
+      _id: req.params.attachmentId,
+      task: task._id,
+    });
+
+    if (!attachment) {
+      return next(new AppError('Attachment not found', 404));
+    }
+
+    // The uploader, the task creator and admins may delete an attachment
+    const canDelete =
+      attachment.uploadedBy.equals(req.user._id) ||
+      task.createdBy.equals(req.user._id) ||
+      req.user.role === UserRole.ADMIN;
+
+    if (!canDelete) {
+      return next(new AppError('You are not authorized to delete this attachment', 403));
+    }
+
+    await removeAttachment(attachment._id);
+
+    res.json({
+      success: true,
+      message: 'Attachment deleted successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -1,16 +1,64 @@
 import { Request, Response, NextFunction } from 'express';
-import jwt from 'jsonwebtoken';
-import { User } from '../models/User';
+import { User, IUser } from '../models/User';
 import { AppError } from '../utils/AppError';
+import { logger } from '../utils/logger';
 import { AuthRequest } from '../middleware/auth';
+import { sendMail } from '../services/mailService';
+import {
+  ClientInfo,
+  createOneTimeToken,
+  hashToken,
+  issueTokenPair,
+  rotateRefreshToken,
+  revokeRefreshToken,
+  revokeAllSessions,
+} from '../services/tokenService';
 
-const generateToken = (userId: string): string => {
-  if (!process.env.JWT_SECRET) {
-    throw new Error('JWT_SECRET is not defined');
-  }
-  
-  return jwt.sign({ userId }, process.env.JWT_SECRET, {
-    expiresIn: process.env.JWT_EXPIRES_IN || '7d',
+const EMAIL_VERIFICATION_EXPIRES_MS = 24 * 60 * 60 * 1000; // 24 hours
+const PASSWORD_RESET_EXPIRES_MS = 60 * 60 * 1000; // 1 hour
+
+const isEmailVerificationRequired = (): boolean =>
+  process.env.REQUIRE_EMAIL_VERIFICATION !== 'false';
+
+const getClientInfo = (req: Request): ClientInfo => ({
+  ip: req.ip,
+  userAgent: req.get('User-Agent'),
+});
+
+const buildAppUrl = (pathname: string, token: string): string =>
+  `${process.env.APP_URL || 'http://localhost:3000'}${pathname}?token=${token}`;
+
+// Generate a verification token for the user and email them the link
+const sendVerificationEmail = async (user: IUser): Promise<void> => {
+  const { token, tokenHash } = createOneTimeToken();
+
+  user.emailVerificationToken = tokenHash;
+  user.emailVerificationExpires = new Date(Date.now() + EMAIL_VERIFICATION_EXPIRES_MS);
+  await user.save();
+
+  const link = buildAppUrl('/verify-email', token);
+
+  await sendMail({
+    to: user.email,
+    subject: 'Verify your email address',
+    text: `Hi ${user.firstName},\n\nPlease confirm your email address by opening the link below:\n\n${link}\n\nThe link expires in 24 hours.`,
+  });
+};
+
+// Generate a password reset token for the user and email them the link
+const sendPasswordResetEmail = async (user: IUser): Promise<void> => {
+  const { token, tokenHash } = createOneTimeToken();
+
+  user.passwordResetToken = tokenHash;
+  user.passwordResetExpires = new Date(Date.now() + PASSWORD_RESET_EXPIRES_MS);
+  await user.save();
+
+  const link = buildAppUrl('/reset-password', token);
+
+  await sendMail({
+    to: user.email,
+    subject: 'Reset your password',
+    text: `Hi ${user.firstName},\n\nWe received a request to reset your password. Open the link below to choose a new one:\n\n${link}\n\nThe link expires in 1 hour. If you did not request a reset, you can ignore this email.`,
   });
 };
 
@@ -34,16 +82,28 @@ export const register = async (req: Request, res: Response, next: NextFunction)
       password,
       firstName,
       lastName,
+      isEmailVerified: false,
     });
 
     await user.save();
 
-    // Generate token
-    const token = generateToken(user._id.toString());
+    // A failed delivery should not fail registration; the user can request a new link
+    try {
+      await sendVerificationEmail(user);
+    } catch (mailError) {
+      logger.error('Failed to send verification email:', mailError);
+    }
+
+    // Tokens are only issued once the email address is confirmed
+    const tokens = isEmailVerificationRequired()
+      ? {}
+      : await issueTokenPair(user, getClientInfo(req));
 
     res.status(201).json({
       success: true,
-      message: 'User registered successfully',
+      message: isEmailVerificationRequired()
+        ? 'User registered successfully. Please check your email to verify your account'
+        : 'User registered successfully',
       data: {
         user: {
           id: user._id,
@@ -52,9 +112,11 @@ export const register = async (req: Request, res: Response, next: NextFunction)
           firstName: user.firstName,
           lastName: user.lastName,
           fullName: user.getFullName(),
+          role: user.role,
+          isEmailVerified: user.isEmailVerified,
           createdAt: user.createdAt,
         },
-        token,
+        ...tokens,
       },
     });
   } catch (error) {
@@ -84,12 +146,17 @@ export const login = async (req: Request, res: Response, next: NextFunction) =>
       return next(new AppError('Invalid email or password', 401));
     }
 
+    // Check email verification
+    if (isEmailVerificationRequired() && !user.isEmailVerified) {
+      return next(new AppError('Please verify your email address before logging in', 403));
+    }
+
     // Update last login
     user.lastLogin = new Date();
     await user.save();
 
-    // Generate token
-    const token = generateToken(user._id.toString());
+    // Generate access and refresh tokens
+    const tokens = await issueTokenPair(user, getClientInfo(req));
 
     res.json({
       success: true,
@@ -102,9 +169,10 @@ export const login = async (req: Request, res: Response, next: NextFunction) =>
           firstName: user.firstName,
           lastName: user.lastName,
           fullName: user.getFullName(),
+          role: user.role,
           lastLogin: user.lastLogin,
         },
-        token,
+        ...tokens,
       },
     });
   } catch (error) {
@@ -128,6 +196,7 @@ export const getProfile = async (req: AuthRequest, res: Response, next: NextFunc
           firstName: req.user.firstName,
           lastName: req.user.lastName,
           fullName: req.user.getFullName(),
+          role: req.user.role,
           avatar: req.user.avatar,
           lastLogin: req.user.lastLogin,
           createdAt: req.user.createdAt,
@@ -173,6 +242,7 @@ export const updateProfile = async (req: AuthRequest, res: Response, next: NextF
           firstName: user.firstName,
           lastName: user.lastName,
           fullName: user.getFullName(),
+          role: user.role,
           avatar: user.avatar,
           updatedAt: user.updatedAt,
         },
@@ -207,9 +277,173 @@ export const changePassword = async (req: AuthRequest, res: Response, next: Next
     user.password = newPassword;
     await user.save();
 
+    // Sign out every other session and hand this client a fresh pair
+    await revokeAllSessions(user._id);
+    user.tokenVersion += 1;
+    const tokens = await issueTokenPair(user, getClientInfo(req));
+
     res.json({
       success: true,
       message: 'Password changed successfully',
+      data: tokens,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const verifyEmail = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { token } = req.body;
+
+    const user = await User.findOne({
+      emailVerificationToken: hashToken(token),
+      emailVerificationExpires: { $gt: new Date() },
+    });
+
+    if (!user) {
+      return next(new AppError('Verification link is invalid or has expired', 400));
+    }
+
+    // Tokens are single-use
+    user.isEmailVerified = true;
+    user.emailVerificationToken = undefined;
+    user.emailVerificationExpires = undefined;
+    await user.save();
+
+    res.json({
+      success: true,
+      message: 'Email verified successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const resendVerification = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { email } = req.body;
+
+    const user = await User.findOne({ email, isActive: true });
+
+    // A failed delivery is only logged, as an error would reveal that the account exists
+    if (user && !user.isEmailVerified) {
+      try {
+        await sendVerificationEmail(user);
+      } catch (mailError) {
+        logger.error('Failed to send verification email:', mailError);
+      }
+    }
+
+    // Same response either way so addresses cannot be enumerated
+    res.json({
+      success: true,
+      message: 'If the account exists and is unverified, a verification email has been sent',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const forgotPassword = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { email } = req.body;
+
+    const user = await User.findOne({ email, isActive: true });
+
+    // A failed delivery is only logged, as an error would reveal that the account exists
+    if (user) {
+      try {
+        await sendPasswordResetEmail(user);
+      } catch (mailError) {
+        logger.error('Failed to send password reset email:', mailError);
+      }
+    }
+
+    // Same response either way so addresses cannot be enumerated
+    res.json({
+      success: true,
+      message: 'If the account exists, a password reset email has been sent',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const resetPassword = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { token, password } = req.body;
+
+    const user = await User.findOne({
+      passwordResetToken: hashToken(token),
+      passwordResetExpires: { $gt: new Date() },
+    }).select('+password');
+
+    if (!user) {
+      return next(new AppError('Reset link is invalid or has expired', 400));
+    }
+
+    // Tokens are single-use; following the emailed link also proves the address
+    user.password = password;
+    user.passwordResetToken = undefined;
+    user.passwordResetExpires = undefined;
+    user.isEmailVerified = true;
+    await user.save();
+
+    // Sign out every existing session
+    await revokeAllSessions(user._id);
+
+    res.json({
+      success: true,
+      message: 'Password reset successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const refresh = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { refreshToken } = req.body;
+
+    const { tokens } = await rotateRefreshToken(refreshToken, getClientInfo(req));
+
+    res.json({
+      success: true,
+      message: 'Token refreshed successfully',
+      data: tokens,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const logout = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { refreshToken } = req.body;
+
+    await revokeRefreshToken(refreshToken);
+
+    res.json({
+      success: true,
+      message: 'Logged out successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const logoutAll = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    await revokeAllSessions(req.user._id);
+
+    res.json({
+      success: true,
+      message: 'Logged out of all sessions successfully',
     });
   } catch (error) {
     next(error);
@@ -0,0 +1,101 @@
+import { Request, Response, NextFunction } from 'express';
+import { User } from '../models/User';
+import { Task } from '../models/Task';
+import { AppError } from '../utils/AppError';
+import { AuthRequest } from '../middleware/auth';
+import { createOneTimeToken, hashToken } from '../services/tokenService';
+import { buildTaskCalendar, CalendarEntryType } from '../services/calendarFeed';
+import { assigneeFilter } from '../services/taskAccess';
+
+// Tasks due longer ago than this are left out of the feed
+const FEED_PAST_DAYS = parseInt(process.env.CALENDAR_FEED_PAST_DAYS || '90', 10);
+
+const buildFeedUrl = (token: string): string =>
+  `${process.env.APP_URL || 'http://localhost:3000'}/api/calendar/feed/${token}.ics`;
+
+export const createFeedToken = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    // A new token replaces the old one, so previously shared URLs stop working
+    const { token, tokenHash } = createOneTimeToken();
+    await User.findByIdAndUpdate(req.user._id, { calendarFeedTokenHash: tokenHash });
+
+    res.status(201).json({
+      success: true,
+      message: 'Calendar feed created; the URL is only shown once',
+      data: {
+        url: buildFeedUrl(token),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const revokeFeedToken = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    await User.findByIdAndUpdate(req.user._id, { $unset: { calendarFeedTokenHash: 1 } });
+
+    res.json({
+      success: true,
+      message: 'Calendar feed revoked',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Public: the feed token in the URL stands in for a Bearer token
+export const getCalendarFeed = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = await User.findOne({
+      calendarFeedTokenHash: hashToken(req.params.token),
+      isActive: true,
+    });
+
+    if (!user) {
+      return next(new AppError('Calendar feed not found', 404));
+    }
+
+    // req.query has already been converted by calendarFeedQuerySchema
+    const { project, tag, status, type } = req.query as unknown as {
+      project?: string[];
+      tag?: string[];
+      status?: string[];
+      type: CalendarEntryType;
+    };
+
+    const filter: any = {
+      ...assigneeFilter(user._id),
+      dueDate: { $gte: new Date(Date.now() - FEED_PAST_DAYS * 24 * 60 * 60 * 1000) },
+    };
+
+    if (project?.length) {
+      filter.project = { $in: project };
+    }
+
+    if (tag?.length) {
+      filter.tags = { $in: tag };
+    }
+
+    if (status?.length) {
+      filter.status = { $in: status };
+    }
+
+    const tasks = await Task.find(filter).sort({ dueDate: 1 });
+
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader('Content-Disposition', 'inline; filename="tasks.ics"');
+    res.setHeader('Cache-Control', 'private, max-age=300');
+    res.send(buildTaskCalendar(user, tasks, type));
+  } catch (error) {
+    next(error);
+  }
+};
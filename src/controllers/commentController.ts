@@ -0,0 +1,205 @@
+import { Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
+import { Comment } from '../models/Comment';
+import { User } from '../models/User';
+import { AppError } from '../utils/AppError';
+import { AuthRequest } from '../middleware/auth';
+import { findVisibleTask } from '../services/taskAccess';
+
+const authorFields = 'username firstName lastName avatar';
+
+// Resolve @username mentions in a comment body to active users
+const resolveMentions = async (body: string): Promise<mongoose.Types.ObjectId[]> => {
+  const usernames = Array.from(
+    new Set(Array.from(body.matchAll(/@([a-zA-Z0-9_]{3,20})\b/g), match => match[1]))
+  );
+
+  if (usernames.length === 0) {
+    return [];
+  }
+
+  return User.find({ username: { $in: usernames }, isActive: true }).distinct('_id');
+};
+
+export const getComments = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    // req.query has already been converted by pageQuerySchema
+    const { page, limit } = req.query as unknown as { page: number; limit: number };
+
+    const task = await findVisibleTask(req.user, req.params.id);
+    if (!task) {
+      return next(new AppError('Task not found', 404));
+    }
+
+    // Paginate top-level comments; replies are returned with their thread
+    const filter = { task: task._id, parent: null };
+
+    // Calculate pagination
+    const skip = (page - 1) * limit;
+
+    const comments = await Comment.find(filter)
+      .populate('author', authorFields)
+      .populate('mentions', 'username')
+      .sort({ createdAt: 1 })
+      .skip(skip)
+      .limit(limit);
+
+    const replies = await Comment.find({ parent: { $in: comments.map(c => c._id) } })
+      .populate('author', authorFields)
+      .populate('mentions', 'username')
+      .sort({ createdAt: 1 });
+
+    const total = await Comment.countDocuments(filter);
+
+    const threads = comments.map(comment => ({
+      ...comment.toObject(),
+      replies: replies.filter(reply => reply.parent?.equals(comment._id)),
+    }));
+
+    res.json({
+      success: true,
+      data: {
+        comments: threads,
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit),
+        },
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const createComment = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    const { body, parent } = req.body;
+
+    const task = await findVisibleTask(req.user, req.params.id);
+    if (!task) {
+      return next(new AppError('Task not found', 404));
+    }
+
+    // Threads are one level deep: replies must target a top-level comment on this task
+    if (parent) {
+      const parentComment = await Comment.findOne({ _id: parent, task: task._id });
+      if (!parentComment) {
+        return next(new AppError('Parent comment not found', 404));
+      }
+      if (parentComment.parent) {
+        return next(new AppError('Replies cannot be nested', 400));
+      }
+    }
+
+    const comment = new Comment({
+      task: task._id,
+      author: req.user._id,
+      body,
+      parent: parent || null,
+      mentions: await resolveMentions(body),
+    });
+
+    await comment.save();
+    await comment.populate([
+      { path: 'author', select: authorFields },
+      { path: 'mentions', select: 'username' },
+    ]);
+
+    res.status(201).json({
+      success: true,
+      message: 'Comment added successfully',
+      data: { comment },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const updateComment = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    const { body } = req.body;
+
+    const task = await findVisibleTask(req.user, req.params.id);
+    if (!task) {
+      return next(new AppError('Task not found', 404));
+    }
+
+    // Users can only edit their own comments
+    const comment = await Comment.findOne({
+      _id: req.params.commentId,
+      task: task._id,
+      author: req.user._id,
+    });
+
+    if (!comment) {
+      return next(new AppError('Comment not found or you are not authorized to edit it', 404));
+    }
+
+    comment.body = body;
+    comment.mentions = await resolveMentions(body);
+    comment.editedAt = new Date();
+
+    await comment.save();
+    await comment.populate([
+      { path: 'author', select: authorFields },
+      { path: 'mentions', select: 'username' },
+    ]);
+
+    res.json({
+      success: true,
+      message: 'Comment updated successfully',
+      data: { comment },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const deleteComment = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    const task = await findVisibleTask(req.user, req.params.id);
+    if (!task) {
+      return next(new AppError('Task not found', 404));
+    }
+
+    // Users can only delete their own comments
+    const comment = await Comment.findOne({
+      _id: req.params.commentId,
+      task: task._id,
+      author: req.user._id,
+    });
+
+    if (!comment) {
+      return next(new AppError('Comment not found or you are not authorized to delete it', 404));
+    }
+
+    // Deleting a comment removes its replies with it
+    await Comment.deleteMany({ parent: comment._id });
+    await Comment.findByIdAndDelete(comment._id);
+
+    res.json({
+      success: true,
+      message: 'Comment deleted successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
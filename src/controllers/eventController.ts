@@ -0,0 +1,38 @@
+import { Response, NextFunction } from 'express';
+import { AppError } from '../utils/AppError';
+import { AuthRequest } from '../middleware/auth';
+import { openEventStream } from '../services/realtime';
+import { generateStreamToken, STREAM_TOKEN_EXPIRES_IN_SECONDS } from '../services/tokenService';
+
+export const createStreamToken = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user || !req.tokenExpiresAt) {
+      return next(new AppError('User not found', 404));
+    }
+
+    // The stream opened with this token ends when the access token used here expires
+    const token = generateStreamToken(req.user, req.tokenExpiresAt);
+
+    res.json({
+      success: true,
+      data: {
+        token,
+        expiresIn: STREAM_TOKEN_EXPIRES_IN_SECONDS,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const streamEvents = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    await openEventStream(req.user, res, req.tokenExpiresAt);
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,85 @@
+import { Response, NextFunction } from 'express';
+import { Job } from '../models/Job';
+import { AppError } from '../utils/AppError';
+import { AuthRequest } from '../middleware/auth';
+import { getJobDefinitions, scheduleJobNow } from '../services/jobRunner';
+
+export const getJobs = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const jobs = await Job.find().sort({ name: 1 });
+
+    // Jobs left over from older releases are still listed but no longer run
+    const defined = new Set(getJobDefinitions().map(definition => definition.name));
+
+    res.json({
+      success: true,
+      data: {
+        jobs: jobs.map(job => ({
+          ...job.toJSON(),
+          isRunning: !!job.lockedUntil && job.lockedUntil > new Date(),
+          isDefined: defined.has(job.name),
+        })),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getJob = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const job = await Job.findOne({ name: req.params.name });
+    if (!job) {
+      return next(new AppError('Job not found', 404));
+    }
+
+    res.json({
+      success: true,
+      data: { job },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const runJob = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const job = await scheduleJobNow(req.params.name);
+    if (!job) {
+      return next(new AppError('Job not found', 404));
+    }
+
+    res.status(202).json({
+      success: true,
+      message: 'Job scheduled to run now',
+      data: { job },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+const setPaused = (isPaused: boolean) =>
+  async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      const job = await Job.findOneAndUpdate(
+        { name: req.params.name },
+        { isPaused },
+        { new: true }
+      );
+      if (!job) {
+        return next(new AppError('Job not found', 404));
+      }
+
+      res.json({
+        success: true,
+        message: isPaused ? 'Job paused' : 'Job resumed',
+        data: { job },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+export const pauseJob = setPaused(true);
+export const resumeJob = setPaused(false);
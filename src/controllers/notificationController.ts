@@ -0,0 +1,168 @@
+import { Response, NextFunction } from 'express';
+import { Notification } from '../models/Notification';
+import { User } from '../models/User';
+import { AppError } from '../utils/AppError';
+import { AuthRequest } from '../middleware/auth';
+
+export const getNotifications = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    // req.query has already been converted by notificationQuerySchema
+    const { unread, page, limit } = req.query as unknown as { unread: boolean; page: number; limit: number };
+
+    // Build filter
+    const filter: any = { recipient: req.user._id };
+
+    if (unread) {
+      filter.readAt = null;
+    }
+
+    // Calculate pagination
+    const skip = (page - 1) * limit;
+
+    const notifications = await Notification.find(filter)
+      .populate('actor', 'username firstName lastName')
+      .populate('task', 'title status dueDate')
+      .sort({ createdAt: -1 })
+      .skip(skip)
+      .limit(limit);
+
+    const total = await Notification.countDocuments(filter);
+
+    res.json({
+      success: true,
+      data: {
+        notifications,
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit),
+        },
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getUnreadCount = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    const count = await Notification.countDocuments({
+      recipient: req.user._id,
+      readAt: null,
+    });
+
+    res.json({
+      success: true,
+      data: { count },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const markNotificationRead = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    const notification = await Notification.findOne({
+      _id: req.params.id,
+      recipient: req.user._id,
+    });
+
+    if (!notification) {
+      return next(new AppError('Notification not found', 404));
+    }
+
+    if (!notification.readAt) {
+      notification.readAt = new Date();
+      await notification.save();
+    }
+
+    res.json({
+      success: true,
+      message: 'Notification marked as read',
+      data: { notification },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const markAllNotificationsRead = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    const result = await Notification.updateMany(
+      { recipient: req.user._id, readAt: null },
+      { readAt: new Date() }
+    );
+
+    res.json({
+      success: true,
+      message: 'All notifications marked as read',
+      data: { updated: result.modifiedCount },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getNotificationPreferences = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    res.json({
+      success: true,
+      data: { preferences: req.user.notificationPreferences },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const updateNotificationPreferences = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    // Only the preferences that were sent are changed
+    const updates = Object.entries(req.body).reduce((fields, [key, value]) => {
+      fields[`notificationPreferences.${key}`] = value;
+      return fields;
+    }, {} as Record<string, unknown>);
+
+    const user = await User.findByIdAndUpdate(
+      req.user._id,
+      { $set: updates },
+      { new: true, runValidators: true }
+    );
+
+    if (!user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    res.json({
+      success: true,
+      message: 'Notification preferences updated successfully',
+      data: { preferences: user.notificationPreferences },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
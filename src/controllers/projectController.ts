@@ -0,0 +1,331 @@
+import { Response, NextFunction } from 'express';
+import { Project, ProjectRole } from '../models/Project';
+import { Task } from '../models/Task';
+import { User } from '../models/User';
+import { Sprint } from '../models/Sprint';
+import { SavedView, ViewVisibility } from '../models/SavedView';
+import { AppError } from '../utils/AppError';
+import { AuthRequest } from '../middleware/auth';
+import { canManageAllTasks, removeTaskParticipant } from '../services/taskAccess';
+import { buildTaskStats } from '../services/taskStats';
+
+const memberFields = 'username email firstName lastName';
+
+export const createProject = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    const { name, description } = req.body;
+
+    // The creator becomes the project owner
+    const project = new Project({
+      name,
+      description,
+      owner: req.user._id,
+      members: [{ user: req.user._id, role: ProjectRole.OWNER }],
+    });
+
+    await project.save();
+    await project.populate([
+      { path: 'owner', select: memberFields },
+      { path: 'members.user', select: memberFields },
+    ]);
+
+    res.status(201).json({
+      success: true,
+      message: 'Project created successfully',
+      data: { project },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getProjects = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    // req.query has already been converted by projectQuerySchema
+    const { includeArchived, page, limit } = req.query as unknown as {
+      includeArchived: boolean;
+      page: number;
+      limit: number;
+    };
+
+    // Users see the projects they belong to
+    const filter: any = { 'members.user': req.user._id };
+
+    if (!includeArchived) {
+      filter.isArchived = false;
+    }
+
+    // Calculate pagination
+    const skip = (page - 1) * limit;
+
+    const projects = await Project.find(filter)
+      .populate('owner', memberFields)
+      .sort({ createdAt: -1 })
+      .skip(skip)
+      .limit(limit);
+
+    const total = await Project.countDocuments(filter);
+
+    res.json({
+      success: true,
+      data: {
+        projects,
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit),
+        },
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getProject = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    const project = await Project.findById(req.params.id)
+      .populate('owner', memberFields)
+      .populate('members.user', memberFields);
+
+    if (!project || (!canManageAllTasks(req.user) && !project.getMemberRole(req.user._id))) {
+      return next(new AppError('Project not found', 404));
+    }
+
+    res.json({
+      success: true,
+      data: { project },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const updateProject = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    const { name, description, isArchived, wipLimits } = req.body;
+
+    const project = await Project.findById(req.params.id);
+    if (!project || !project.getMemberRole(req.user._id)) {
+      return next(new AppError('Project not found', 404));
+    }
+
+    if (!project.hasRole(req.user._id, ProjectRole.OWNER, ProjectRole.MANAGER)) {
+      return next(new AppError('Only project owners and managers can update the project', 403));
+    }
+
+    if (name !== undefined) project.name = name;
+    if (description !== undefined) project.description = description;
+    if (isArchived !== undefined) project.isArchived = isArchived;
+    // Only the columns given are changed; null removes a column's limit
+    for (const [status, limit] of Object.entries(wipLimits || {})) {
+      project.set(`wipLimits.${status}`, limit);
+    }
+
+    await project.save();
+
+    res.json({
+      success: true,
+      message: 'Project updated successfully',
+      data: { project },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const deleteProject = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    const project = await Project.findById(req.params.id);
+    if (!project || !project.getMemberRole(req.user._id)) {
+      return next(new AppError('Project not found', 404));
+    }
+
+    if (!project.hasRole(req.user._id, ProjectRole.OWNER)) {
+      return next(new AppError('Only the project owner can delete the project', 403));
+    }
+
+    // Tasks outlive their project and fall back to assignee/creator visibility; its sprints go with it
+    await Task.updateMany({ project: project._id }, { project: null, sprint: null });
+    await Sprint.deleteMany({ project: project._id });
+    // Views shared with the project go back to being private to their owners
+    await SavedView.updateMany(
+      { project: project._id },
+      { visibility: ViewVisibility.PRIVATE, project: null }
+    );
+    await Project.findByIdAndDelete(project._id);
+
+    res.json({
+      success: true,
+      message: 'Project deleted successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const addProjectMember = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    const { userId, role = ProjectRole.MEMBER } = req.body;
+
+    const project = await Project.findById(req.params.id);
+    if (!project || !project.getMemberRole(req.user._id)) {
+      return next(new AppError('Project not found', 404));
+    }
+
+    if (!project.hasRole(req.user._id, ProjectRole.OWNER, ProjectRole.MANAGER)) {
+      return next(new AppError('Only project owners and managers can add members', 403));
+    }
+
+    const user = await User.findById(userId);
+    if (!user || !user.isActive) {
+      return next(new AppError('User not found', 404));
+    }
+
+    if (project.getMemberRole(user._id)) {
+      return next(new AppError('User is already a member of this project', 400));
+    }
+
+    project.members.push({ user: user._id, role, addedAt: new Date() });
+    await project.save();
+    await project.populate('members.user', memberFields);
+
+    res.status(201).json({
+      success: true,
+      message: 'Member added successfully',
+      data: { members: project.members },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const updateProjectMember = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    const { userId } = req.params;
+    const { role } = req.body;
+
+    const project = await Project.findById(req.params.id);
+    if (!project || !project.getMemberRole(req.user._id)) {
+      return next(new AppError('Project not found', 404));
+    }
+
+    if (!project.hasRole(req.user._id, ProjectRole.OWNER)) {
+      return next(new AppError('Only the project owner can change member roles', 403));
+    }
+
+    const member = project.members.find(m => m.user.toString() === userId);
+    if (!member) {
+      return next(new AppError('Member not found', 404));
+    }
+
+    if (project.owner.equals(member.user)) {
+      return next(new AppError('The project owner\'s role cannot be changed', 400));
+    }
+
+    member.role = role;
+    await project.save();
+    await project.populate('members.user', memberFields);
+
+    res.json({
+      success: true,
+      message: 'Member role updated successfully',
+      data: { members: project.members },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const removeProjectMember = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    const { userId } = req.params;
+
+    const project = await Project.findById(req.params.id);
+    if (!project || !project.getMemberRole(req.user._id)) {
+      return next(new AppError('Project not found', 404));
+    }
+
+    // Owners and managers can remove anyone; members can leave on their own
+    const isSelf = req.user._id.toString() === userId;
+    if (!isSelf && !project.hasRole(req.user._id, ProjectRole.OWNER, ProjectRole.MANAGER)) {
+      return next(new AppError('Only project owners and managers can remove members', 403));
+    }
+
+    if (project.owner.toString() === userId) {
+      return next(new AppError('The project owner cannot be removed', 400));
+    }
+
+    const memberCount = project.members.length;
+    project.members = project.members.filter(m => m.user.toString() !== userId);
+
+    if (project.members.length === memberCount) {
+      return next(new AppError('Member not found', 404));
+    }
+
+    await project.save();
+    await removeTaskParticipant(userId, { project: project._id });
+
+    res.json({
+      success: true,
+      message: 'Member removed successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getProjectStats = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    const project = await Project.findById(req.params.id);
+    if (!project || (!canManageAllTasks(req.user) && !project.getMemberRole(req.user._id))) {
+      return next(new AppError('Project not found', 404));
+    }
+
+    const stats = await buildTaskStats({ project: project._id });
+
+    res.json({
+      success: true,
+      data: stats,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,386 @@
+import { Response, NextFunction } from 'express';
+import { Sprint, ISprint } from '../models/Sprint';
+import { Project, IProject, ProjectRole } from '../models/Project';
+import { Task } from '../models/Task';
+import { IUser } from '../models/User';
+import { AppError } from '../utils/AppError';
+import { AuthRequest } from '../middleware/auth';
+import { canManageAllTasks, getUserProjectIds, taskEditFilter } from '../services/taskAccess';
+import { snapshotTask, recordTaskUpdated } from '../services/taskActivity';
+import { buildTaskStats } from '../services/taskStats';
+import { TaskQuery, findTaskPage } from '../services/taskQuery';
+import {
+  MAX_SPRINT_DAYS,
+  buildSprintCompletion,
+  buildSprintDays,
+  toBurndown,
+  toBurnup,
+} from '../services/sprintReports';
+import { paginate } from '../utils/pagination';
+
+const SPRINT_SELECTABLE_FIELDS = ['name', 'goal', 'project', 'startDate', 'endDate', 'createdBy', 'createdAt', 'updatedAt'];
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+interface SprintItemResult {
+  id: string;
+  success: boolean;
+  changed?: boolean;
+  statusCode?: number;
+  error?: string;
+}
+
+// Project members see the project's sprints; admins and managers see every sprint
+const findVisibleSprint = async (user: IUser, id: string): Promise<{ sprint: ISprint; project: IProject }> => {
+  const sprint = await Sprint.findById(id);
+  const project = sprint && await Project.findById(sprint.project);
+  if (!sprint || !project || (!canManageAllTasks(user) && !project.getMemberRole(user._id))) {
+    throw new AppError('Sprint not found', 404);
+  }
+  return { sprint, project };
+};
+
+// Project owners and managers plan sprints; admins and managers can plan any sprint
+const canManageSprints = (user: IUser, project: IProject): boolean =>
+  canManageAllTasks(user) || project.hasRole(user._id, ProjectRole.OWNER, ProjectRole.MANAGER);
+
+// Burndown series are built day by day, so sprints are kept to a sensible length
+const assertSprintLength = (startDate: Date, endDate: Date): void => {
+  if ((endDate.getTime() - startDate.getTime()) / MS_PER_DAY >= MAX_SPRINT_DAYS) {
+    throw new AppError(`A sprint cannot be longer than ${MAX_SPRINT_DAYS} days`, 400);
+  }
+};
+
+export const createSprint = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    const { name, goal, project: projectId, startDate, endDate } = req.body;
+
+    const project = await Project.findById(projectId);
+    if (!project || project.isArchived || (!canManageAllTasks(req.user) && !project.getMemberRole(req.user._id))) {
+      return next(new AppError('Project not found', 404));
+    }
+
+    if (!canManageSprints(req.user, project)) {
+      return next(new AppError('Only project owners and managers can plan sprints', 403));
+    }
+
+    assertSprintLength(new Date(startDate), new Date(endDate));
+
+    const sprint = new Sprint({
+      name,
+      goal,
+      project: project._id,
+      startDate,
+      endDate,
+      createdBy: req.user._id,
+    });
+
+    await sprint.save();
+
+    res.status(201).json({
+      success: true,
+      message: 'Sprint created successfully',
+      data: { sprint },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getSprints = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    const { project: projectId, active } = req.query;
+
+    // Users see the sprints of their projects; admins and managers see all of them
+    const filter: any = canManageAllTasks(req.user)
+      ? {}
+      : { project: { $in: await getUserProjectIds(req.user._id) } };
+
+    if (typeof projectId === 'string' && projectId) {
+      filter.project = filter.project
+        ? { $in: filter.project.$in.filter((id: any) => id.equals(projectId)) }
+        : projectId;
+    }
+
+    // Sprints running right now
+    if (active === 'true') {
+      const now = new Date();
+      filter.startDate = { $lte: now };
+      filter.endDate = { $gte: now };
+    }
+
+    const { items: sprints, pagination } = await paginate(Sprint, filter, req.query, {
+      sort: [['startDate', -1]],
+      selectableFields: SPRINT_SELECTABLE_FIELDS,
+      populate: [{ path: 'project', select: 'name' }],
+    });
+
+    res.json({
+      success: true,
+      data: {
+        sprints,
+        pagination,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getSprint = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    const { sprint } = await findVisibleSprint(req.user, req.params.id);
+    const completion = await buildSprintCompletion(sprint._id);
+    await sprint.populate([
+      { path: 'project', select: 'name' },
+      { path: 'createdBy', select: 'username email firstName lastName' },
+    ]);
+
+    res.json({
+      success: true,
+      data: { sprint, completion },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const updateSprint = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    const { name, goal, startDate, endDate } = req.body;
+
+    const { sprint, project } = await findVisibleSprint(req.user, req.params.id);
+    if (!canManageSprints(req.user, project)) {
+      return next(new AppError('Only project owners and managers can update sprints', 403));
+    }
+
+    if (name !== undefined) sprint.name = name;
+    if (goal !== undefined) sprint.goal = goal;
+    if (startDate !== undefined) sprint.startDate = startDate;
+    if (endDate !== undefined) sprint.endDate = endDate;
+
+    // Values are cast to dates on assignment
+    assertSprintLength(sprint.startDate, sprint.endDate);
+
+    await sprint.save();
+
+    res.json({
+      success: true,
+      message: 'Sprint updated successfully',
+      data: { sprint },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const deleteSprint = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    const { sprint, project } = await findVisibleSprint(req.user, req.params.id);
+    if (!canManageSprints(req.user, project)) {
+      return next(new AppError('Only project owners and managers can delete sprints', 403));
+    }
+
+    // Tasks stay in the project, back in its backlog
+    await Task.updateMany({ sprint: sprint._id }, { sprint: null });
+    await Sprint.findByIdAndDelete(sprint._id);
+
+    res.json({
+      success: true,
+      message: 'Sprint deleted successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getSprintTasks = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    const { sprint } = await findVisibleSprint(req.user, req.params.id);
+
+    // req.query has already been converted by taskQuerySchema
+    const { tasks, pagination } = await findTaskPage(req.query as TaskQuery, req.user, { sprint: sprint._id });
+
+    res.json({
+      success: true,
+      data: {
+        tasks,
+        pagination,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const addSprintTasks = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    const { taskIds } = req.body as { taskIds: string[] };
+
+    const { sprint } = await findVisibleSprint(req.user, req.params.id);
+
+    const found = await Task.find({ _id: { $in: taskIds }, ...(await taskEditFilter(req.user)) });
+    const byId = new Map(found.map(task => [task._id.toString(), task]));
+
+    // Each task is reported on its own, like the bulk endpoint does
+    const results: SprintItemResult[] = [];
+    for (const id of taskIds) {
+      const task = byId.get(id);
+      if (!task) {
+        results.push({ id, success: false, statusCode: 404, error: 'Task not found' });
+        continue;
+      }
+
+      if (!task.project?.equals(sprint.project)) {
+        results.push({ id, success: false, statusCode: 400, error: 'Task does not belong to the sprint\'s project' });
+        continue;
+      }
+
+      if (task.sprint?.equals(sprint._id)) {
+        results.push({ id, success: true, changed: false });
+        continue;
+      }
+
+      const before = snapshotTask(task);
+      task.sprint = sprint._id;
+      await task.save();
+      await recordTaskUpdated(task, before, req.user._id);
+
+      results.push({ id, success: true, changed: true });
+    }
+
+    const failed = results.filter(result => !result.success).length;
+
+    res.json({
+      success: true,
+      message: failed
+        ? `${results.length - failed} of ${results.length} tasks added to the sprint`
+        : 'Tasks added to the sprint',
+      data: { results },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const removeSprintTask = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    const { sprint } = await findVisibleSprint(req.user, req.params.id);
+
+    const task = await Task.findOne({
+      _id: req.params.taskId,
+      sprint: sprint._id,
+      ...(await taskEditFilter(req.user)),
+    });
+
+    if (!task) {
+      return next(new AppError('Task not found in this sprint', 404));
+    }
+
+    const before = snapshotTask(task);
+    task.sprint = null;
+    await task.save();
+    await recordTaskUpdated(task, before, req.user._id);
+
+    res.json({
+      success: true,
+      message: 'Task removed from the sprint',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getSprintStats = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    const { sprint } = await findVisibleSprint(req.user, req.params.id);
+
+    const stats = await buildTaskStats({ sprint: sprint._id });
+    const completion = await buildSprintCompletion(sprint._id);
+
+    res.json({
+      success: true,
+      data: { ...stats, completion },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getSprintBurndown = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    const { sprint } = await findVisibleSprint(req.user, req.params.id);
+    const days = await buildSprintDays(sprint);
+
+    res.json({
+      success: true,
+      data: {
+        sprint: { _id: sprint._id, name: sprint.name, startDate: sprint.startDate, endDate: sprint.endDate },
+        burndown: toBurndown(days),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getSprintBurnup = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    const { sprint } = await findVisibleSprint(req.user, req.params.id);
+    const days = await buildSprintDays(sprint);
+
+    res.json({
+      success: true,
+      data: {
+        sprint: { _id: sprint._id, name: sprint.name, startDate: sprint.startDate, endDate: sprint.endDate },
+        burnup: toBurnup(days),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
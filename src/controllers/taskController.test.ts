@@ -0,0 +1,187 @@
+import { NextFunction, Response } from 'express';
+import mongoose from 'mongoose';
+import { Task, TaskStatus } from '../models/Task';
+import { User } from '../models/User';
+import { AuthRequest } from '../middleware/auth';
+import { taskEditFilter, taskVisibilityFilter } from '../services/taskAccess';
+import { spawnNextOccurrence } from '../services/recurrence';
+import { logger } from '../utils/logger';
+import { getTask, moveTask, updateTask } from './taskController';
+
+jest.mock('../models/Task', () => ({
+  ...jest.requireActual('../models/Task'),
+  Task: {
+    find: jest.fn(),
+    findOne: jest.fn(),
+    findByIdAndUpdate: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+  },
+}));
+
+jest.mock('../services/taskAccess', () => ({
+  ...jest.requireActual('../services/taskAccess'),
+  taskVisibilityFilter: jest.fn(),
+  taskEditFilter: jest.fn(),
+}));
+
+jest.mock('../services/taskBoard', () => ({
+  ...jest.requireActual('../services/taskBoard'),
+  withWipLimit: jest.fn((_task, _status, write: () => unknown) => write()),
+  rankForPlacement: jest.fn(async () => 'm'),
+}));
+
+jest.mock('../services/taskActivity');
+jest.mock('../services/taskHierarchy');
+jest.mock('../services/taskWorkflow');
+jest.mock('../services/recurrence');
+
+// Stand-in for a mongoose query: chainable, and resolves to the result when awaited
+const query = <T>(result: T) => {
+  const chain = {
+    populate: () => chain,
+    select: () => chain,
+    sort: () => chain,
+    exec: () => Promise.resolve(result),
+    then: (resolve: (value: T) => unknown, reject?: (reason: unknown) => unknown) =>
+      Promise.resolve(result).then(resolve, reject),
+  };
+  return chain;
+};
+
+const makeRequest = (params: Record<string, string>, body: Record<string, unknown> = {}) =>
+  ({ user: new User({ username: 'editor', email: 'editor@example.com' }), params, body }) as unknown as AuthRequest;
+
+const makeResponse = () => {
+  const res = { json: jest.fn(), status: jest.fn() };
+  res.status.mockReturnValue(res);
+  return res;
+};
+
+const id = () => new mongoose.Types.ObjectId();
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  (taskVisibilityFilter as jest.Mock).mockResolvedValue({ visibleTo: 'caller' });
+  (taskEditFilter as jest.Mock).mockResolvedValue({ editableBy: 'caller' });
+});
+
+describe('getTask', () => {
+  it('lists blockers the caller cannot see by ID only', async () => {
+    const visible = { _id: id(), title: 'Visible blocker', status: 'pending' };
+    const hidden = id();
+    const task = { _id: id(), blockedBy: [visible._id, hidden] };
+
+    (Task.findOne as jest.Mock).mockReturnValue(query(task));
+    (Task.find as jest.Mock).mockReturnValue(query([visible]));
+
+    const res = makeResponse();
+    const next: NextFunction = jest.fn();
+    await getTask(makeRequest({ id: task._id.toString() }), res as unknown as Response, next);
+
+    // Blockers are looked up through the caller's visibility filter
+    expect(Task.find).toHaveBeenCalledWith({ _id: { $in: task.blockedBy }, visibleTo: 'caller' });
+    expect(next).not.toHaveBeenCalled();
+    expect(res.json.mock.calls[0][0].data.blockers).toEqual([visible, { _id: hidden }]);
+  });
+
+  it('hides tasks the caller cannot see', async () => {
+    (Task.findOne as jest.Mock).mockReturnValue(query(null));
+
+    const next = jest.fn();
+    await getTask(makeRequest({ id: id().toString() }), makeResponse() as unknown as Response, next);
+
+    expect(next).toHaveBeenCalledWith(expect.objectContaining({ message: 'Task not found', statusCode: 404 }));
+  });
+});
+
+describe('updateTask', () => {
+  it('only writes fields a task update may set', async () => {
+    const task = { _id: id(), status: 'pending', assignedTo: null, parent: null };
+    const updated = { ...task, title: 'Renamed' };
+
+    (Task.findOne as jest.Mock).mockReturnValue(query(task));
+    (Task.findByIdAndUpdate as jest.Mock).mockReturnValue(query(updated));
+
+    const next = jest.fn();
+    const body = {
+      title: 'Renamed',
+      assignedTo: id().toString(),
+      assignees: [id().toString()],
+      watchers: [id().toString()],
+      blockedBy: [id().toString()],
+      createdBy: id().toString(),
+      rank: '0',
+      progress: 100,
+      recurrenceOf: id().toString(),
+      nextOccurrence: id().toString(),
+    };
+    await updateTask(makeRequest({ id: task._id.toString() }, body), makeResponse() as unknown as Response, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(Task.findOne).toHaveBeenCalledWith({ _id: task._id.toString(), editableBy: 'caller' });
+    expect(Task.findByIdAndUpdate).toHaveBeenCalledWith(task._id.toString(), { title: 'Renamed' }, expect.any(Object));
+  });
+
+  it('does not let users without edit access update a task', async () => {
+    (Task.findOne as jest.Mock).mockReturnValue(query(null));
+
+    const next = jest.fn();
+    const req = makeRequest({ id: id().toString() }, { title: 'Renamed' });
+    await updateTask(req, makeResponse() as unknown as Response, next);
+
+    expect(next).toHaveBeenCalledWith(expect.objectContaining({ statusCode: 404 }));
+    expect(Task.findByIdAndUpdate).not.toHaveBeenCalled();
+  });
+});
+
+describe('moveTask', () => {
+  const completed = { _id: id(), status: TaskStatus.COMPLETED, rank: 'c' };
+
+  beforeEach(() => {
+    (Task.findOne as jest.Mock).mockReturnValue(query(completed));
+    (Task.findOneAndUpdate as jest.Mock).mockReturnValue(query({ ...completed, rank: 'm' }));
+  });
+
+  it('only changes the rank when a card is reordered within its column', async () => {
+    const next = jest.fn();
+    const req = makeRequest({ id: completed._id.toString() }, { after: id().toString() });
+    await moveTask(req, makeResponse() as unknown as Response, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(Task.findOneAndUpdate).toHaveBeenCalledWith(
+      { _id: completed._id, status: TaskStatus.COMPLETED, rank: 'c' },
+      { rank: 'm' },
+      expect.any(Object)
+    );
+  });
+
+  it('sends the status when the card changes column', async () => {
+    const next = jest.fn();
+    const req = makeRequest({ id: completed._id.toString() }, { status: TaskStatus.IN_PROGRESS });
+    await moveTask(req, makeResponse() as unknown as Response, next);
+
+    expect(Task.findOneAndUpdate).toHaveBeenCalledWith(
+      expect.any(Object),
+      { status: TaskStatus.IN_PROGRESS, rank: 'm' },
+      expect.any(Object)
+    );
+  });
+
+  it('still reports a completed move when the next occurrence cannot be scheduled', async () => {
+    const started = { _id: id(), status: TaskStatus.IN_PROGRESS, rank: 'c' };
+    const done = { ...started, status: TaskStatus.COMPLETED, rank: 'm' };
+    (Task.findOne as jest.Mock).mockReturnValue(query(started));
+    (Task.findOneAndUpdate as jest.Mock).mockReturnValue(query(done));
+    (spawnNextOccurrence as jest.Mock).mockRejectedValue(new Error('connection reset'));
+
+    const res = makeResponse();
+    const next = jest.fn();
+    const req = makeRequest({ id: started._id.toString() }, { status: TaskStatus.COMPLETED });
+    await moveTask(req, res as unknown as Response, next);
+
+    // The move is already saved, so the failure is logged rather than passed on
+    expect(next).not.toHaveBeenCalled();
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ success: true, data: { task: done } }));
+    expect(logger.error).toHaveBeenCalled();
+  });
+});
@@ -1,8 +1,124 @@
 import { Response, NextFunction } from 'express';
-import { Task, TaskStatus, TaskPriority } from '../models/Task';
-import { User } from '../models/User';
+import mongoose from 'mongoose';
+import { Task, ITask, IRecurrence, TaskPriority, TaskStatus } from '../models/Task';
+import { User, IUser } from '../models/User';
+import { Project } from '../models/Project';
+import { Team, TeamRole } from '../models/Team';
+import { Comment } from '../models/Comment';
+import { TimeEntry } from '../models/TimeEntry';
+import { TaskActivity } from '../models/TaskActivity';
 import { AppError } from '../utils/AppError';
 import { AuthRequest } from '../middleware/auth';
+import {
+  canManageAllTasks,
+  participantTaskFilter,
+  taskVisibilityFilter,
+  taskEditFilter,
+  taskDeleteFilter,
+  findVisibleTask,
+  findWritableProject,
+  findQueueTeam,
+  findProjectSprint,
+  getUserTeamIds,
+} from '../services/taskAccess';
+import { buildTaskStats } from '../services/taskStats';
+import {
+  snapshotTask,
+  recordTaskCreated,
+  recordTaskUpdated,
+  recordTaskDeleted,
+} from '../services/taskActivity';
+import { assertTransition, getAllowedTransitions } from '../services/taskWorkflow';
+import {
+  assertValidParent,
+  assertNoDependencyCycle,
+  rollUpProgress,
+  buildSubtaskTree,
+} from '../services/taskHierarchy';
+import { spawnNextOccurrence } from '../services/recurrence';
+import { removeTaskAttachments } from '../services/attachments';
+import {
+  TaskQuery,
+  findTaskPage,
+  parseTaskQuery,
+  buildTaskFilter,
+  buildTaskSort,
+} from '../services/taskQuery';
+import { runBulkTaskOperation } from '../services/taskBulk';
+import { BOARD_COLUMNS, buildBoard, withWipLimit, rankForPlacement } from '../services/taskBoard';
+import { ExportFormat, ExportTask, EXPORT_CONTENT_TYPES, writeTaskExport } from '../services/taskExport';
+import { ImportFormat, parseImportRows, importTasks as importTaskRows } from '../services/taskImport';
+import { logger } from '../utils/logger';
+
+// Check that the user can see the parent and that nesting under it keeps the tree valid
+const checkParent = async (
+  user: IUser,
+  taskId: mongoose.Types.ObjectId | null,
+  parentId: string
+): Promise<void> => {
+  const parent = await findVisibleTask(user, parentId);
+  if (!parent) {
+    throw new AppError('Parent task not found', 404);
+  }
+
+  await assertValidParent(taskId, parentId);
+};
+
+// Check that a user can be put on a task: active, and a member of the task's project and team
+const checkTaskMember = async (
+  userId: string,
+  projectId?: mongoose.Types.ObjectId | string | null,
+  teamId?: mongoose.Types.ObjectId | string | null
+): Promise<IUser> => {
+  const user = await User.findById(userId);
+  if (!user || !user.isActive) {
+    throw new AppError('User not found', 404);
+  }
+
+  if (projectId) {
+    const project = await Project.findById(projectId);
+    if (project && !project.getMemberRole(user._id)) {
+      throw new AppError('User is not a member of this project', 400);
+    }
+  }
+
+  if (teamId) {
+    const team = await Team.findById(teamId);
+    if (team && !team.getMemberRole(user._id)) {
+      throw new AppError('User is not a member of this team', 400);
+    }
+  }
+
+  return user;
+};
+
+// Schedule the next occurrence once a recurring task is completed. The completion is already saved,
+// so a failure here is logged instead of failing the request, as with the follow-up work of bulk changes.
+const scheduleNextOccurrence = async (task: ITask, userId: mongoose.Types.ObjectId): Promise<void> => {
+  try {
+    await spawnNextOccurrence(task, userId);
+  } catch (error) {
+    logger.error(`Failed to schedule the next occurrence of task ${task._id}:`, error);
+  }
+};
+
+const userFields = 'username email firstName lastName';
+
+// Matches the limit on assignees in taskSchema
+const MAX_CO_ASSIGNEES = 20;
+
+const listTasks = async (req: AuthRequest, res: Response, user: IUser, baseFilter: any) => {
+  // req.query has already been converted by taskQuerySchema
+  const { tasks, pagination } = await findTaskPage(req.query as TaskQuery, user, baseFilter);
+
+  res.json({
+    success: true,
+    data: {
+      tasks,
+      pagination,
+    },
+  });
+};
 
 export const createTask = async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
@@ -10,29 +126,89 @@ export const createTask = async (req: AuthRequest, res: Response, next: NextFunc
       return next(new AppError('User not found', 404));
     }
 
-    const { title, description, priority, dueDate, tags, assignedTo } = req.body;
+    const {
+      title,
+      description,
+      priority,
+      dueDate,
+      tags,
+      estimate,
+      assignedTo,
+      assignees,
+      team: teamId,
+      project: projectId,
+      sprint: sprintId,
+      parent,
+      recurrence,
+    } = req.body;
+
+    // Team tasks without an assignee wait in the team's queue
+    const team = teamId ? await findQueueTeam(req.user, teamId) : null;
 
     // If assignedTo is not provided, assign to the current user
-    const assigneeId = assignedTo || req.user._id;
+    const assigneeId = assignedTo || (team ? null : req.user._id);
 
     // Verify assignee exists
-    const assignee = await User.findById(assigneeId);
-    if (!assignee) {
+    const assignee = assigneeId ? await User.findById(assigneeId) : null;
+    if (assigneeId && !assignee) {
       return next(new AppError('Assigned user not found', 404));
     }
 
+    // Team tasks can only be assigned to team members
+    if (team && assignee && !team.getMemberRole(assignee._id)) {
+      return next(new AppError('Assigned user is not a member of this team', 400));
+    }
+
+    // Project tasks can only be assigned to project members
+    if (projectId) {
+      const project = await findWritableProject(req.user, projectId);
+      if (assignee && !project.getMemberRole(assignee._id)) {
+        return next(new AppError('Assigned user is not a member of this project', 400));
+      }
+    }
+
+    if (sprintId) {
+      await findProjectSprint(sprintId, projectId);
+    }
+
+    // Co-assignees share the work with the primary assignee
+    const coAssigneeIds: string[] = Array.from(new Set<string>(assignees || []))
+      .filter(userId => userId !== assigneeId?.toString());
+    if (coAssigneeIds.length && !assigneeId) {
+      return next(new AppError('Co-assignees need a primary assignee', 400));
+    }
+    for (const userId of coAssigneeIds) {
+      await checkTaskMember(userId, projectId, team?._id);
+    }
+
+    if (parent) {
+      await checkParent(req.user, null, parent);
+    }
+
     const task = new Task({
       title,
       description,
       priority: priority || TaskPriority.MEDIUM,
       dueDate,
       tags: tags || [],
+      estimate,
       assignedTo: assigneeId,
+      assignees: coAssigneeIds,
+      team: team?._id || null,
       createdBy: req.user._id,
+      project: projectId || null,
+      sprint: sprintId || null,
+      parent: parent || null,
+      recurrence: recurrence || null,
     });
 
     await task.save();
-    await task.populate(['assignedTo', 'createdBy'], 'username email firstName lastName');
+    await recordTaskCreated(task, req.user._id);
+    await rollUpProgress(task.parent);
+    await task.populate([
+      { path: 'assignedTo', select: 'username email firstName lastName' },
+      { path: 'createdBy', select: 'username email firstName lastName' },
+    ]);
 
     res.status(201).json({
       success: true,
@@ -50,157 +226,373 @@ export const getTasks = async (req: AuthRequest, res: Response, next: NextFuncti
       return next(new AppError('User not found', 404));
     }
 
-    const {
-      status,
-      priority,
-      assignedTo,
-      createdBy,
-      search,
-      sortBy = 'createdAt',
-      sortOrder = 'desc',
-      page = 1,
-      limit = 10,
-    } = req.query;
+    // Users can see tasks they are assigned to, created or watch, and those in their projects and teams
+    await listTasks(req, res, req.user, await participantTaskFilter(req.user));
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getAllTasks = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    // Every task in the system, regardless of assignee or creator
+    await listTasks(req, res, req.user, {});
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Blockers the user cannot see are listed by ID only, so their details do not leak
+const findBlockers = async (task: ITask, user: IUser): Promise<Array<ITask | { _id: mongoose.Types.ObjectId }>> => {
+  const visible = await Task.find({ _id: { $in: task.blockedBy }, ...(await taskVisibilityFilter(user)) })
+    .select('title status priority dueDate assignedTo');
+  const byId = new Map(visible.map(blocker => [blocker._id.toString(), blocker]));
+
+  return task.blockedBy.map(id => byId.get(id.toString()) || { _id: id });
+};
+
+export const getTask = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    const { id } = req.params;
+
+    const task = await Task.findOne({
+      _id: id,
+      ...(await taskVisibilityFilter(req.user)),
+    })
+      .populate('assignedTo', 'username email firstName lastName')
+      .populate('assignees', 'username email firstName lastName')
+      .populate('watchers', 'username email firstName lastName')
+      .populate('createdBy', 'username email firstName lastName')
+      .populate('team', 'name')
+      .populate('sprint', 'name startDate endDate');
+
+    if (!task) {
+      return next(new AppError('Task not found', 404));
+    }
+
+    const blockers = await findBlockers(task, req.user);
+
+    res.json({
+      success: true,
+      data: {
+        task,
+        subtasks: await buildSubtaskTree(task._id),
+        blockers,
+        allowedTransitions: await getAllowedTransitions(task, req.user),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Fields a task update may set, as converted by updateTaskSchema
+interface TaskUpdates {
+  title?: string;
+  description?: string;
+  status?: TaskStatus;
+  priority?: TaskPriority;
+  dueDate?: Date | null;
+  tags?: string[];
+  estimate?: number | null;
+  team?: string | null;
+  project?: string | null;
+  sprint?: string | null;
+  parent?: string | null;
+  recurrence?: IRecurrence | null;
+}
+
+// Assignees, dependencies and internal fields such as rank or progress have their own paths
+const TASK_UPDATE_FIELDS: Array<keyof TaskUpdates> = [
+  'title',
+  'description',
+  'status',
+  'priority',
+  'dueDate',
+  'tags',
+  'estimate',
+  'team',
+  'project',
+  'sprint',
+  'parent',
+  'recurrence',
+];
+
+const pickTaskUpdates = (body: TaskUpdates): TaskUpdates => {
+  const updates: TaskUpdates = {};
+  const copy = <K extends keyof TaskUpdates>(field: K) => {
+    if (body[field] !== undefined) {
+      updates[field] = body[field];
+    }
+  };
+  TASK_UPDATE_FIELDS.forEach(copy);
+  return updates;
+};
+
+export const updateTask = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
 
-    // Build filter object
-    const filter: any = {};
+    const { id } = req.params;
+    const updates = pickTaskUpdates(req.body);
 
-    // Users can see tasks assigned to them or created by them
-    filter.$or = [
-      { assignedTo: req.user._id },
-      { createdBy: req.user._id },
-    ];
+    // Find task and check permissions
+    const task = await Task.findOne({
+      _id: id,
+      ...(await taskEditFilter(req.user)),
+    });
 
-    if (status) {
-      filter.status = status;
+    if (!task) {
+      return next(new AppError('Task not found', 404));
     }
 
-    if (priority) {
-      filter.priority = priority;
+    // Moving a task into a project requires write access to that project
+    if (updates.project) {
+      const project = await findWritableProject(req.user, updates.project);
+      if (task.assignedTo && !project.getMemberRole(task.assignedTo)) {
+        return next(new AppError('Assigned user is not a member of this project', 400));
+      }
     }
 
-    if (assignedTo) {
-      filter.assignedTo = assignedTo;
+    // Sprints only take tasks of their own project; a task moved to another project leaves its sprint
+    const movesProject = updates.project !== undefined && !task.project?.equals(updates.project);
+    if (updates.sprint) {
+      await findProjectSprint(updates.sprint, movesProject ? updates.project : task.project);
+    } else if (movesProject && task.sprint && updates.sprint === undefined) {
+      updates.sprint = null;
     }
 
-    if (createdBy) {
-      filter.createdBy = createdBy;
+    // Moving a task into a team queue requires membership of that team
+    if (updates.team) {
+      const team = await findQueueTeam(req.user, updates.team);
+      if (task.assignedTo && !team.getMemberRole(task.assignedTo)) {
+        return next(new AppError('Assigned user is not a member of this team', 400));
+      }
+    } else if (updates.team === null && !task.assignedTo) {
+      return next(new AppError('An unclaimed task cannot be removed from its team', 400));
     }
 
-    if (search) {
-      filter.$text = { $search: search as string };
+    // Recurring tasks are scheduled from their due date, so the result must still have one
+    const dueDate = updates.dueDate !== undefined ? updates.dueDate : task.dueDate;
+    const recurrence = updates.recurrence !== undefined ? updates.recurrence : task.recurrence;
+    if (recurrence && !dueDate) {
+      return next(new AppError('Recurring tasks need a due date', 400));
     }
 
-    // Calculate pagination
-    const pageNum = parseInt(page as string, 10);
-    const limitNum = parseInt(limit as string, 10);
-    const skip = (pageNum - 1) * limitNum;
+    // Re-parenting must not create a loop
+    if (updates.parent) {
+      await checkParent(req.user, task._id, updates.parent);
+    }
 
-    // Build sort object
-    const sort: any = {};
-    sort[sortBy as string] = sortOrder === 'asc' ? 1 : -1;
+    // Status changes must follow the workflow
+    if (updates.status === task.status) {
+      delete updates.status;
+    } else if (updates.status) {
+      await assertTransition(task, updates.status, req.user);
+    }
 
-    // Execute query
-    const tasks = await Task.find(filter)
-      .populate('assignedTo', 'username email firstName lastName')
-      .populate('createdBy', 'username email firstName lastName')
-      .sort(sort)
-      .skip(skip)
-      .limit(limitNum);
+    // Update task; a status change must respect the target column's WIP limit
+    const before = snapshotTask(task);
+
+    const updatedTask = await withWipLimit(task, updates.status || task.status, () =>
+      Task.findByIdAndUpdate(
+        id,
+        updates,
+        { new: true, runValidators: true }
+      )
+        .populate('assignedTo', 'username email firstName lastName')
+        .populate('createdBy', 'username email firstName lastName')
+        .exec()
+    );
+
+    if (updatedTask) {
+      await recordTaskUpdated(updatedTask, before, req.user._id);
+
+      // Keep progress of the old and new parent chains up to date
+      await rollUpProgress(updatedTask._id);
+      if (task.parent && !task.parent.equals(updatedTask.parent?._id)) {
+        await rollUpProgress(task.parent);
+      }
 
-    // Get total count
-    const total = await Task.countDocuments(filter);
+      // Completing an occurrence of a recurring task schedules the next one
+      if (updatedTask.status === TaskStatus.COMPLETED && task.status !== TaskStatus.COMPLETED) {
+        await scheduleNextOccurrence(updatedTask, req.user._id);
+      }
+    }
 
     res.json({
       success: true,
-      data: {
-        tasks,
-        pagination: {
-          page: pageNum,
-          limit: limitNum,
-          total,
-          pages: Math.ceil(total / limitNum),
-        },
-      },
+      message: 'Task updated successfully',
+      data: { task: updatedTask },
     });
   } catch (error) {
     next(error);
   }
 };
 
-export const getTask = async (req: AuthRequest, res: Response, next: NextFunction) => {
+export const transitionTask = async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
     if (!req.user) {
       return next(new AppError('User not found', 404));
     }
 
     const { id } = req.params;
+    const { status } = req.body as { status: TaskStatus };
 
     const task = await Task.findOne({
       _id: id,
-      $or: [
-        { assignedTo: req.user._id },
-        { createdBy: req.user._id },
-      ],
-    })
-      .populate('assignedTo', 'username email firstName lastName')
-      .populate('createdBy', 'username email firstName lastName');
+      ...(await taskEditFilter(req.user)),
+    });
 
     if (!task) {
       return next(new AppError('Task not found', 404));
     }
 
+    await assertTransition(task, status, req.user);
+
+    // Saving the document lets the pre-save hook maintain completedAt
+    const before = snapshotTask(task);
+    await withWipLimit(task, status, async () => {
+      task.status = status;
+      await task.save();
+    });
+    await recordTaskUpdated(task, before, req.user._id);
+    await rollUpProgress(task._id);
+
+    // Completing an occurrence of a recurring task schedules the next one
+    if (status === TaskStatus.COMPLETED) {
+      await scheduleNextOccurrence(task, req.user._id);
+    }
+
+    await task.populate([
+      { path: 'assignedTo', select: 'username email firstName lastName' },
+      { path: 'createdBy', select: 'username email firstName lastName' },
+    ]);
+
     res.json({
       success: true,
-      data: { task },
+      message: `Task moved to ${status}`,
+      data: {
+        task,
+        allowedTransitions: await getAllowedTransitions(task, req.user),
+      },
     });
   } catch (error) {
     next(error);
   }
 };
 
-export const updateTask = async (req: AuthRequest, res: Response, next: NextFunction) => {
+export const getBoard = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    // req.query has already been converted by boardQuerySchema
+    const query = req.query as unknown as TaskQuery & { limit: number };
+    const { status: statuses = BOARD_COLUMNS, ...filters } = query;
+
+    // WIP limits are per project, so they are shown when the board is for a single project the user belongs to
+    let wipLimits = {};
+    if (query.project?.length === 1) {
+      const project = await Project.findById(query.project[0]).select('wipLimits members');
+      if (project && (canManageAllTasks(req.user) || project.getMemberRole(req.user._id))) {
+        wipLimits = project.wipLimits || {};
+      }
+    }
+
+    const filter = buildTaskFilter(filters, req.user._id, await participantTaskFilter(req.user));
+    const columns = await buildBoard(filter, statuses as TaskStatus[], query.limit, wipLimits);
+
+    res.json({
+      success: true,
+      data: { columns },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const moveTask = async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
     if (!req.user) {
       return next(new AppError('User not found', 404));
     }
 
     const { id } = req.params;
-    const updates = req.body;
+    const { after, before } = req.body;
 
-    // Find task and check permissions
     const task = await Task.findOne({
       _id: id,
-      $or: [
-        { assignedTo: req.user._id },
-        { createdBy: req.user._id },
-      ],
+      ...(await taskEditFilter(req.user)),
     });
 
     if (!task) {
       return next(new AppError('Task not found', 404));
     }
 
-    // Update task
-    const updatedTask = await Task.findByIdAndUpdate(
-      id,
-      updates,
-      { new: true, runValidators: true }
-    )
-      .populate('assignedTo', 'username email firstName lastName')
-      .populate('createdBy', 'username email firstName lastName');
+    if (task._id.equals(after || before)) {
+      return next(new AppError('A task cannot be placed next to itself', 400));
+    }
+
+    // Changing columns follows the workflow and the target column's WIP limit
+    const status: TaskStatus = req.body.status || task.status;
+    if (status !== task.status) {
+      await assertTransition(task, status, req.user);
+    }
+
+    // Neighbours must be tasks the user can see
+    const rank = await rankForPlacement(task._id, status, { after, before }, await taskVisibilityFilter(req.user));
+
+    // Column and position change in one write, and only if nobody moved the task in the meantime
+    const snapshot = snapshotTask(task);
+    const moved = await withWipLimit(task, status, () =>
+      Task.findOneAndUpdate(
+        { _id: task._id, status: task.status, rank: task.rank },
+        // Reordering within a column must not touch the status, or completedAt would be reset
+        status !== task.status ? { status, rank } : { rank },
+        { new: true, runValidators: true }
+      )
+        .populate('assignedTo', 'username email firstName lastName')
+        .populate('createdBy', 'username email firstName lastName')
+        .exec()
+    );
+
+    if (!moved) {
+      return next(new AppError('Task was moved by someone else; reload the board and try again', 409));
+    }
+
+    if (status !== task.status) {
+      await recordTaskUpdated(moved, snapshot, req.user._id);
+      await rollUpProgress(moved._id);
+
+      // Completing an occurrence of a recurring task schedules the next one
+      if (status === TaskStatus.COMPLETED) {
+        await scheduleNextOccurrence(moved, req.user._id);
+      }
+    }
 
     res.json({
       success: true,
-      message: 'Task updated successfully',
-      data: { task: updatedTask },
+      message: 'Task moved successfully',
+      data: { task: moved },
     });
   } catch (error) {
     next(error);
   }
 };
 
-export const deleteTask = async (req: AuthRequest, res: Response, next: NextFunction) => {
+export const claimTask = async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
     if (!req.user) {
       return next(new AppError('User not found', 404));
@@ -208,102 +600,649 @@ export const deleteTask = async (req: AuthRequest, res: Response, next: NextFunc
 
     const { id } = req.params;
 
-    // Find task and check if user is the creator
+    // Only members of the task's team can take it from the queue
     const task = await Task.findOne({
       _id: id,
-      createdBy: req.user._id,
+      team: { $in: await getUserTeamIds(req.user._id) },
     });
 
     if (!task) {
-      return next(new AppError('Task not found or you are not authorized to delete it', 404));
+      return next(new AppError('Task not found', 404));
     }
 
-    await Task.findByIdAndDelete(id);
+    if (task.assignedTo) {
+      return next(new AppError('Task has already been claimed', 409));
+    }
+
+    if (task.project) {
+      const project = await Project.findById(task.project);
+      if (project && !project.getMemberRole(req.user._id)) {
+        return next(new AppError('You are not a member of this task\'s project', 400));
+      }
+    }
+
+    // The assignedTo guard makes the claim atomic when two members race for the same task
+    const before = snapshotTask(task);
+    const claimed = await Task.findOneAndUpdate(
+      { _id: task._id, assignedTo: null },
+      { assignedTo: req.user._id, $pull: { assignees: req.user._id } },
+      { new: true }
+    );
+
+    if (!claimed) {
+      return next(new AppError('Task has already been claimed', 409));
+    }
+
+    await recordTaskUpdated(claimed, before, req.user._id);
+    await claimed.populate([
+      { path: 'assignedTo', select: 'username email firstName lastName' },
+      { path: 'createdBy', select: 'username email firstName lastName' },
+      { path: 'team', select: 'name' },
+    ]);
 
     res.json({
       success: true,
-      message: 'Task deleted successfully',
+      message: 'Task claimed successfully',
+      data: { task: claimed },
     });
   } catch (error) {
     next(error);
   }
 };
 
-export const getTaskStats = async (req: AuthRequest, res: Response, next: NextFunction) => {
+export const unclaimTask = async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
     if (!req.user) {
       return next(new AppError('User not found', 404));
     }
 
-    const userId = req.user._id;
+    const { id } = req.params;
 
-    // Get stats for tasks assigned to user
-    const stats = await Task.aggregate([
-      {
-        $match: {
-          $or: [
-            { assignedTo: userId },
-            { createdBy: userId },
-          ],
-        },
-      },
-      {
-        $group: {
-          _id: '$status',
-          count: { $sum: 1 },
-        },
-      },
-    ]);
+    const task = await findVisibleTask(req.user, id);
+    if (!task || !task.team) {
+      return next(new AppError('Task not found', 404));
+    }
 
-    // Get priority distribution
-    const priorityStats = await Task.aggregate([
-      {
-        $match: {
-          $or: [
-            { assignedTo: userId },
-            { createdBy: userId },
-          ],
-        },
-      },
-      {
-        $group: {
-          _id: '$priority',
-          count: { $sum: 1 },
-        },
-      },
+    if (!task.assignedTo) {
+      return next(new AppError('Task is not claimed', 400));
+    }
+
+    // The assignee can hand a task back; team leads, admins and managers can take it away
+    const team = await Team.findById(task.team);
+    if (
+      !task.assignedTo.equals(req.user._id) &&
+      !canManageAllTasks(req.user) &&
+      !team?.hasRole(req.user._id, TeamRole.LEAD)
+    ) {
+      return next(new AppError('Only the assignee or a team lead can return this task to the queue', 403));
+    }
+
+    const before = snapshotTask(task);
+    const unclaimed = await Task.findOneAndUpdate(
+      { _id: task._id, assignedTo: task.assignedTo },
+      { assignedTo: null },
+      { new: true }
+    );
+
+    if (!unclaimed) {
+      return next(new AppError('Task was reassigned in the meantime', 409));
+    }
+
+    await recordTaskUpdated(unclaimed, before, req.user._id);
+    await unclaimed.populate([
+      { path: 'createdBy', select: 'username email firstName lastName' },
+      { path: 'team', select: 'name' },
     ]);
 
-    // Get overdue tasks count
-    const overdueTasks = await Task.countDocuments({
-      $or: [
-        { assignedTo: userId },
-        { createdBy: userId },
-      ],
-      dueDate: { $lt: new Date() },
-      status: { $ne: TaskStatus.COMPLETED },
+    res.json({
+      success: true,
+      message: 'Task returned to the team queue',
+      data: { task: unclaimed },
     });
+  } catch (error) {
+    next(error);
+  }
+};
 
-    // Format stats
-    const statusStats = Object.values(TaskStatus).map(status => ({
-      status,
-      count: stats.find(s => s._id === status)?.count || 0,
-    }));
+export const addDependency = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
 
-    const priorityDistribution = Object.values(TaskPriority).map(priority => ({
-      priority,
-      count: priorityStats.find(s => s._id === priority)?.count || 0,
-    }));
+    const { id } = req.params;
+    const { taskId } = req.body;
 
-    res.json({
+    const task = await Task.findOne({
+      _id: id,
+      ...(await taskEditFilter(req.user)),
+    });
+
+    if (!task) {
+      return next(new AppError('Task not found', 404));
+    }
+
+    const blocker = await findVisibleTask(req.user, taskId);
+    if (!blocker) {
+      return next(new AppError('Blocking task not found', 404));
+    }
+
+    if (task.blockedBy.some(dependency => dependency.equals(blocker._id))) {
+      return next(new AppError('Task is already blocked by this task', 400));
+    }
+
+    await assertNoDependencyCycle(task._id, blocker._id);
+
+    const before = snapshotTask(task);
+    task.blockedBy.push(blocker._id);
+    await task.save();
+    await recordTaskUpdated(task, before, req.user._id);
+
+    const blockers = await findBlockers(task, req.user);
+
+    res.status(201).json({
       success: true,
-      data: {
-        statusStats,
-        priorityDistribution,
-        overdueTasks,
-        totalTasks: stats.reduce((sum, stat) => sum + stat.count, 0),
-      },
+      message: 'Dependency added successfully',
+      data: { blockers },
     });
   } catch (error) {
     next(error);
   }
-};
\ No newline at end of file
+};
+
+export const removeDependency = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    const { id, blockerId } = req.params;
+
+    const task = await Task.findOne({
+      _id: id,
+      ...(await taskEditFilter(req.user)),
+    });
+
+    if (!task) {
+      return next(new AppError('Task not found', 404));
+    }
+
+    if (!task.blockedBy.some(dependency => dependency.toString() === blockerId)) {
+      return next(new AppError('Dependency not found', 404));
+    }
+
+    const before = snapshotTask(task);
+    task.blockedBy = task.blockedBy.filter(dependency => dependency.toString() !== blockerId);
+    await task.save();
+    await recordTaskUpdated(task, before, req.user._id);
+
+    res.json({
+      success: true,
+      message: 'Dependency removed successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const addAssignee = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    const { id } = req.params;
+    const { userId } = req.body;
+
+    const task = await Task.findOne({
+      _id: id,
+      ...(await taskEditFilter(req.user)),
+    });
+
+    if (!task) {
+      return next(new AppError('Task not found', 404));
+    }
+
+    if (!task.assignedTo) {
+      return next(new AppError('Co-assignees need a primary assignee', 400));
+    }
+
+    if (task.assignedTo.equals(userId) || task.assignees.some(assignee => assignee.equals(userId))) {
+      return next(new AppError('User is already assigned to this task', 400));
+    }
+
+    if (task.assignees.length >= MAX_CO_ASSIGNEES) {
+      return next(new AppError(`A task can have at most ${MAX_CO_ASSIGNEES} co-assignees`, 400));
+    }
+
+    const assignee = await checkTaskMember(userId, task.project, task.team);
+
+    const before = snapshotTask(task);
+    task.assignees.push(assignee._id);
+    await task.save();
+    await recordTaskUpdated(task, before, req.user._id);
+    await task.populate('assignees', userFields);
+
+    res.status(201).json({
+      success: true,
+      message: 'Assignee added successfully',
+      data: { assignees: task.assignees },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const removeAssignee = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    const { id, userId } = req.params;
+
+    const task = await Task.findOne({
+      _id: id,
+      ...(await taskEditFilter(req.user)),
+    });
+
+    if (!task) {
+      return next(new AppError('Task not found', 404));
+    }
+
+    if (!task.assignees.some(assignee => assignee.toString() === userId)) {
+      return next(new AppError('Assignee not found', 404));
+    }
+
+    const before = snapshotTask(task);
+    task.assignees = task.assignees.filter(assignee => assignee.toString() !== userId);
+    await task.save();
+    await recordTaskUpdated(task, before, req.user._id);
+
+    res.json({
+      success: true,
+      message: 'Assignee removed successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Add a watcher unless they already watch the task; returns whether anything changed
+const addWatcherTo = async (task: ITask, watcherId: mongoose.Types.ObjectId): Promise<boolean> => {
+  const result = await Task.updateOne(
+    { _id: task._id, watchers: { $ne: watcherId } },
+    { $push: { watchers: watcherId } }
+  );
+  return result.modifiedCount > 0;
+};
+
+export const watchTask = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    // Anyone who can see a task can follow it
+    const task = await findVisibleTask(req.user, req.params.id);
+    if (!task) {
+      return next(new AppError('Task not found', 404));
+    }
+
+    const added = await addWatcherTo(task, req.user._id);
+
+    res.status(added ? 201 : 200).json({
+      success: true,
+      message: added ? 'You are now watching this task' : 'You are already watching this task',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const unwatchTask = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    const task = await findVisibleTask(req.user, req.params.id);
+    if (!task) {
+      return next(new AppError('Task not found', 404));
+    }
+
+    await Task.updateOne({ _id: task._id }, { $pull: { watchers: req.user._id } });
+
+    res.json({
+      success: true,
+      message: 'You are no longer watching this task',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getWatchers = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    const task = await findVisibleTask(req.user, req.params.id);
+    if (!task) {
+      return next(new AppError('Task not found', 404));
+    }
+
+    await task.populate('watchers', userFields);
+
+    res.json({
+      success: true,
+      data: { watchers: task.watchers },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const addWatcher = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    const { id } = req.params;
+    const { userId } = req.body;
+
+    // Watching grants read access, so only people who can edit the task may add others
+    const task = await Task.findOne({
+      _id: id,
+      ...(await taskEditFilter(req.user)),
+    });
+
+    if (!task) {
+      return next(new AppError('Task not found', 404));
+    }
+
+    const watcher = await checkTaskMember(userId, task.project, task.team);
+
+    if (!(await addWatcherTo(task, watcher._id))) {
+      return next(new AppError('User is already watching this task', 400));
+    }
+
+    res.status(201).json({
+      success: true,
+      message: 'Watcher added successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const removeWatcher = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    const { id, userId } = req.params;
+
+    // Editors can remove anyone; watchers can always remove themselves
+    const task = req.user._id.toString() === userId
+      ? await findVisibleTask(req.user, id)
+      : await Task.findOne({ _id: id, ...(await taskEditFilter(req.user)) });
+
+    if (!task) {
+      return next(new AppError('Task not found', 404));
+    }
+
+    const result = await Task.updateOne({ _id: task._id }, { $pull: { watchers: userId } });
+    if (result.modifiedCount === 0) {
+      return next(new AppError('Watcher not found', 404));
+    }
+
+    res.json({
+      success: true,
+      message: 'Watcher removed successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const deleteTask = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    const { id } = req.params;
+
+    // Find task and check if user is the creator, a project owner/manager or an admin
+    const task = await Task.findOne({
+      _id: id,
+      ...(await taskDeleteFilter(req.user)),
+    });
+
+    if (!task) {
+      return next(new AppError('Task not found or you are not authorized to delete it', 404));
+    }
+
+    await Task.findByIdAndDelete(id);
+    await Comment.deleteMany({ task: task._id });
+    await TimeEntry.deleteMany({ task: task._id });
+    await removeTaskAttachments(task._id);
+    await recordTaskDeleted(task, req.user._id);
+
+    // Subtasks become top-level tasks and dependents are unblocked
+    await Task.updateMany({ parent: task._id }, { parent: null });
+    await Task.updateMany({ blockedBy: task._id }, { $pull: { blockedBy: task._id } });
+    await rollUpProgress(task.parent);
+
+    res.json({
+      success: true,
+      message: 'Task deleted successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const bulkUpdateTasks = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    const { filter, ...request } = req.body;
+
+    const { committed, results } = await runBulkTaskOperation(req.user, {
+      ...request,
+      ...(filter && { filter: parseTaskQuery(filter) }),
+    });
+
+    const succeeded = results.filter(result => result.success).length;
+    const summary = {
+      total: results.length,
+      succeeded,
+      failed: results.length - succeeded,
+    };
+
+    // In atomic mode a single failure rolls back the whole batch
+    if (!committed) {
+      return res.status(409).json({
+        success: false,
+        error: 'No tasks were changed because some tasks failed',
+        data: { summary, results },
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Bulk operation completed',
+      data: { summary, results },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const exportTasks = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    // req.query has already been converted by exportQuerySchema
+    const query = req.query as unknown as TaskQuery & { format: ExportFormat };
+    const filter = buildTaskFilter(query, req.user._id, await participantTaskFilter(req.user));
+
+    const sort: Record<string, 1 | -1> = {};
+    for (const [field, direction] of buildTaskSort(query)) {
+      sort[field] = direction;
+    }
+    sort._id = 1;
+
+    const cursor = Task.find(filter)
+      .sort(sort)
+      .populate<Pick<ExportTask, 'assignedTo'>>('assignedTo', 'username email')
+      .populate<Pick<ExportTask, 'createdBy'>>('createdBy', 'username')
+      .cursor();
+
+    const date = new Date().toISOString().slice(0, 10);
+    res.setHeader('Content-Type', EXPORT_CONTENT_TYPES[query.format]);
+    res.setHeader('Content-Disposition', `attachment; filename="tasks-${date}.${query.format}"`);
+
+    try {
+      await writeTaskExport(cursor, query.format, res);
+      res.end();
+    } catch (error) {
+      // Headers are gone by now, so all we can do is cut the download short
+      logger.error('Task export failed:', error);
+      await cursor.close();
+      res.destroy(error as Error);
+    }
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const importTasks = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    // req.query has already been converted by importQuerySchema
+    const { dryRun } = req.query as unknown as { dryRun: boolean };
+    const format: ImportFormat = (req.query.format as ImportFormat | undefined)
+      ?? (req.is('text/csv') ? 'csv' : req.is('application/x-ndjson') ? 'ndjson' : 'json');
+
+    const rows = parseImportRows(req.body, format);
+    const result = await importTaskRows(req.user, rows, dryRun);
+
+    res.status(dryRun || result.summary.succeeded === 0 ? 200 : 201).json({
+      success: true,
+      message: dryRun ? 'Import checked' : 'Import completed',
+      data: result,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getTaskHistory = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    const { id } = req.params;
+    // req.query has already been converted by pageQuerySchema
+    const { page, limit } = req.query as unknown as { page: number; limit: number };
+
+    // History of deleted tasks is only available to admins and managers
+    if (!canManageAllTasks(req.user)) {
+      const task = await Task.findOne({
+        _id: id,
+        ...(await taskVisibilityFilter(req.user)),
+      });
+
+      if (!task) {
+        return next(new AppError('Task not found', 404));
+      }
+    }
+
+    // Calculate pagination
+    const skip = (page - 1) * limit;
+
+    const history = await TaskActivity.find({ task: id })
+      .populate('actor', 'username email firstName lastName')
+      .sort({ createdAt: -1 })
+      .skip(skip)
+      .limit(limit);
+
+    const total = await TaskActivity.countDocuments({ task: id });
+
+    res.json({
+      success: true,
+      data: {
+        history,
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit),
+        },
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getTaskStats = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    const { project: projectId, team: teamId } = req.query;
+
+    let match: any;
+
+    if (teamId) {
+      // Stats across every task queued for or claimed from a team the user belongs to
+      const team = await Team.findById(teamId);
+      if (!team || (!canManageAllTasks(req.user) && !team.getMemberRole(req.user._id))) {
+        return next(new AppError('Team not found', 404));
+      }
+      match = { team: team._id };
+    } else if (projectId) {
+      // Stats across every task in a project the user belongs to
+      const project = await Project.findById(projectId);
+      if (!project || (!canManageAllTasks(req.user) && !project.getMemberRole(req.user._id))) {
+        return next(new AppError('Project not found', 404));
+      }
+      match = { project: project._id };
+    } else {
+      // Stats for tasks assigned to (or shared with) or created by the user, plus unclaimed work in their team queues
+      match = {
+        $or: [
+          { assignedTo: req.user._id },
+          { assignees: req.user._id },
+          { createdBy: req.user._id },
+          { team: { $in: await getUserTeamIds(req.user._id) }, assignedTo: null },
+        ],
+      };
+    }
+
+    const stats = await buildTaskStats(match);
+
+    res.json({
+      success: true,
+      data: stats,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
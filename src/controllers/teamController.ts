@@ -0,0 +1,294 @@
+import { Response, NextFunction } from 'express';
+import { Team, ITeam, TeamRole } from '../models/Team';
+import { SavedView, ViewVisibility } from '../models/SavedView';
+import { Task, TaskStatus } from '../models/Task';
+import { User, IUser } from '../models/User';
+import { AppError } from '../utils/AppError';
+import { AuthRequest } from '../middleware/auth';
+import { canManageAllTasks, removeTaskParticipant } from '../services/taskAccess';
+import { paginate } from '../utils/pagination';
+
+const memberFields = 'username email firstName lastName';
+
+const TEAM_SELECTABLE_FIELDS = ['name', 'description', 'members', 'createdBy', 'createdAt', 'updatedAt'];
+
+// Members see their teams; admins and managers see every team
+const findVisibleTeam = async (user: IUser, id: string): Promise<ITeam> => {
+  const team = await Team.findById(id);
+  if (!team || (!canManageAllTasks(user) && !team.getMemberRole(user._id))) {
+    throw new AppError('Team not found', 404);
+  }
+  return team;
+};
+
+// Team leads manage their own team; admins and managers manage any team
+const canManageTeam = (user: IUser, team: ITeam): boolean =>
+  canManageAllTasks(user) || team.hasRole(user._id, TeamRole.LEAD);
+
+// Whether the change would leave the team without anyone to manage it
+const removesLastLead = (team: ITeam, userId: string): boolean =>
+  team.getMemberRole(userId) === TeamRole.LEAD &&
+  team.members.filter(m => m.role === TeamRole.LEAD).length === 1;
+
+export const createTeam = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    const { name, description } = req.body;
+
+    if (await Team.exists({ name })) {
+      return next(new AppError('A team with this name already exists', 400));
+    }
+
+    // The creator leads the new team
+    const team = new Team({
+      name,
+      description,
+      createdBy: req.user._id,
+      members: [{ user: req.user._id, role: TeamRole.LEAD }],
+    });
+
+    await team.save();
+    await team.populate('members.user', memberFields);
+
+    res.status(201).json({
+      success: true,
+      message: 'Team created successfully',
+      data: { team },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getTeams = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    // Users see the teams they belong to; admins and managers can list all of them
+    const filter = req.query.all === 'true' && canManageAllTasks(req.user)
+      ? {}
+      : { 'members.user': req.user._id };
+
+    const { items: teams, pagination } = await paginate(Team, filter, req.query, {
+      sort: [['name', 1]],
+      selectableFields: TEAM_SELECTABLE_FIELDS,
+    });
+
+    res.json({
+      success: true,
+      data: {
+        teams,
+        pagination,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getTeam = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    const team = await findVisibleTeam(req.user, req.params.id);
+    await team.populate('members.user', memberFields);
+
+    // Unclaimed tasks still open in the team's queue
+    const queuedTasks = await Task.countDocuments({
+      team: team._id,
+      assignedTo: null,
+      status: { $in: [TaskStatus.PENDING, TaskStatus.IN_PROGRESS] },
+    });
+
+    res.json({
+      success: true,
+      data: { team, queuedTasks },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const updateTeam = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    const { name, description } = req.body;
+
+    const team = await findVisibleTeam(req.user, req.params.id);
+    if (!canManageTeam(req.user, team)) {
+      return next(new AppError('Only team leads can update the team', 403));
+    }
+
+    if (name !== undefined && name !== team.name && await Team.exists({ name })) {
+      return next(new AppError('A team with this name already exists', 400));
+    }
+
+    if (name !== undefined) team.name = name;
+    if (description !== undefined) team.description = description;
+
+    await team.save();
+
+    res.json({
+      success: true,
+      message: 'Team updated successfully',
+      data: { team },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const deleteTeam = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    const team = await Team.findById(req.params.id);
+    if (!team) {
+      return next(new AppError('Team not found', 404));
+    }
+
+    // Unclaimed tasks go back to whoever created them; claimed tasks stay with their assignee
+    await Task.updateMany(
+      { team: team._id, assignedTo: null },
+      [{ $set: { assignedTo: '$createdBy', team: null } }]
+    );
+    await Task.updateMany({ team: team._id }, { team: null });
+    // Views shared with the team go back to being private to their owners
+    await SavedView.updateMany(
+      { team: team._id },
+      { visibility: ViewVisibility.PRIVATE, team: null }
+    );
+    await Team.findByIdAndDelete(team._id);
+
+    res.json({
+      success: true,
+      message: 'Team deleted successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const addTeamMember = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    const { userId, role = TeamRole.MEMBER } = req.body;
+
+    const team = await findVisibleTeam(req.user, req.params.id);
+    if (!canManageTeam(req.user, team)) {
+      return next(new AppError('Only team leads can add members', 403));
+    }
+
+    const user = await User.findById(userId);
+    if (!user || !user.isActive) {
+      return next(new AppError('User not found', 404));
+    }
+
+    if (team.getMemberRole(user._id)) {
+      return next(new AppError('User is already a member of this team', 400));
+    }
+
+    team.members.push({ user: user._id, role, addedAt: new Date() });
+    await team.save();
+    await team.populate('members.user', memberFields);
+
+    res.status(201).json({
+      success: true,
+      message: 'Member added successfully',
+      data: { members: team.members },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const updateTeamMember = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    const { userId } = req.params;
+    const { role } = req.body;
+
+    const team = await findVisibleTeam(req.user, req.params.id);
+    if (!canManageTeam(req.user, team)) {
+      return next(new AppError('Only team leads can change member roles', 403));
+    }
+
+    const member = team.members.find(m => m.user.toString() === userId);
+    if (!member) {
+      return next(new AppError('Member not found', 404));
+    }
+
+    if (role !== TeamRole.LEAD && removesLastLead(team, userId)) {
+      return next(new AppError('A team must keep at least one lead', 400));
+    }
+
+    member.role = role;
+    await team.save();
+    await team.populate('members.user', memberFields);
+
+    res.json({
+      success: true,
+      message: 'Member role updated successfully',
+      data: { members: team.members },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const removeTeamMember = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    const { userId } = req.params;
+
+    const team = await findVisibleTeam(req.user, req.params.id);
+
+    // Leads can remove anyone; members can leave on their own
+    const isSelf = req.user._id.toString() === userId;
+    if (!isSelf && !canManageTeam(req.user, team)) {
+      return next(new AppError('Only team leads can remove members', 403));
+    }
+
+    if (removesLastLead(team, userId)) {
+      return next(new AppError('A team must keep at least one lead', 400));
+    }
+
+    const memberCount = team.members.length;
+    team.members = team.members.filter(m => m.user.toString() !== userId);
+
+    if (team.members.length === memberCount) {
+      return next(new AppError('Member not found', 404));
+    }
+
+    await team.save();
+    await removeTaskParticipant(userId, { team: team._id });
+
+    res.json({
+      success: true,
+      message: 'Member removed successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,271 @@
+import { Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
+import { Task } from '../models/Task';
+import { TimeEntry } from '../models/TimeEntry';
+import { IUser, UserRole } from '../models/User';
+import { AppError } from '../utils/AppError';
+import { AuthRequest } from '../middleware/auth';
+import { canManageAllTasks, findVisibleTask, taskEditFilter } from '../services/taskAccess';
+import {
+  TimeReportGroup,
+  findRunningTimer,
+  startTimer as startUserTimer,
+  stopTimer as stopUserTimer,
+  logTime,
+  buildTimeReport,
+} from '../services/timeTracking';
+import { paginate } from '../utils/pagination';
+
+const userFields = 'username email firstName lastName';
+
+const TIME_ENTRY_SELECTABLE_FIELDS = [
+  'task',
+  'user',
+  'source',
+  'startedAt',
+  'endedAt',
+  'minutes',
+  'note',
+  'createdAt',
+];
+
+// Logging time on a task requires permission to edit it
+const findEditableTask = async (user: IUser, taskId: string) =>
+  Task.findOne({ _id: taskId, ...(await taskEditFilter(user)) });
+
+export const getTaskTime = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    const task = await findVisibleTask(req.user, req.params.id);
+    if (!task) {
+      return next(new AppError('Task not found', 404));
+    }
+
+    const { items: entries, pagination } = await paginate(TimeEntry, { task: task._id }, req.query, {
+      sort: [['startedAt', -1]],
+      selectableFields: TIME_ENTRY_SELECTABLE_FIELDS,
+      populate: [{ path: 'user', select: userFields }],
+      defaultLimit: 20,
+    });
+
+    // Totals cover every entry, not just this page
+    const report = await buildTimeReport({ task: task._id }, 'user');
+
+    res.json({
+      success: true,
+      data: {
+        estimate: task.estimate ?? null,
+        loggedMinutes: report.totalMinutes,
+        remainingMinutes: task.estimate != null ? Math.max(task.estimate - report.totalMinutes, 0) : null,
+        byUser: report.groups,
+        entries,
+        pagination,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const logTaskTime = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    const task = await findEditableTask(req.user, req.params.id);
+    if (!task) {
+      return next(new AppError('Task not found', 404));
+    }
+
+    const { minutes, startedAt, note } = req.body;
+    const entry = await logTime(req.user, task, { minutes, startedAt, note });
+
+    res.status(201).json({
+      success: true,
+      message: 'Time logged successfully',
+      data: { entry },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const startTaskTimer = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    const task = await findEditableTask(req.user, req.params.id);
+    if (!task) {
+      return next(new AppError('Task not found', 404));
+    }
+
+    const entry = await startUserTimer(req.user, task, req.body.note);
+
+    res.status(201).json({
+      success: true,
+      message: 'Timer started',
+      data: { entry },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getRunningTimer = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    const entry = await findRunningTimer(req.user._id);
+    await entry?.populate('task', 'title status');
+
+    res.json({
+      success: true,
+      data: { entry },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const stopTimer = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    const entry = await stopUserTimer(req.user._id);
+
+    res.json({
+      success: true,
+      message: `Logged ${entry.minutes} minutes`,
+      data: { entry },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Users manage their own entries; admins can manage anyone's
+const findOwnedEntry = async (user: IUser, entryId: string) => {
+  const entry = await TimeEntry.findById(entryId);
+  if (!entry) {
+    throw new AppError('Time entry not found', 404);
+  }
+  if (!entry.user.equals(user._id) && user.role !== UserRole.ADMIN) {
+    throw new AppError('You can only change your own time entries', 403);
+  }
+  return entry;
+};
+
+export const updateTimeEntry = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    const entry = await findOwnedEntry(req.user, req.params.entryId);
+    if (entry.isRunning) {
+      return next(new AppError('Stop the timer before editing this entry', 400));
+    }
+
+    const { minutes, startedAt, note } = req.body;
+
+    if (startedAt !== undefined) entry.startedAt = new Date(startedAt);
+    if (minutes !== undefined) entry.minutes = minutes;
+    if (note !== undefined) entry.note = note;
+    entry.endedAt = new Date(entry.startedAt.getTime() + entry.minutes! * 60 * 1000);
+
+    await entry.save();
+
+    res.json({
+      success: true,
+      message: 'Time entry updated successfully',
+      data: { entry },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const deleteTimeEntry = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    const entry = await findOwnedEntry(req.user, req.params.entryId);
+    await TimeEntry.deleteOne({ _id: entry._id });
+
+    res.json({
+      success: true,
+      message: 'Time entry deleted successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getTimeReport = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    // req.query has already been converted by timeReportQuerySchema
+    const { from, to, user, task, project, groupBy } = req.query as unknown as {
+      from?: Date;
+      to?: Date;
+      user?: string[];
+      task?: string[];
+      project?: string[];
+      groupBy: TimeReportGroup;
+    };
+
+    const currentUserId = req.user._id;
+    const userIds = user?.map(id => (id === 'me' ? currentUserId : new mongoose.Types.ObjectId(id)));
+
+    // Admins and managers can report on anyone, and on everyone by default; other users only on their own time
+    const match: any = {};
+    if (canManageAllTasks(req.user)) {
+      if (userIds) {
+        match.user = { $in: userIds };
+      }
+    } else if (userIds?.some(id => !id.equals(currentUserId))) {
+      return next(new AppError('You can only report on your own time', 403));
+    } else {
+      match.user = currentUserId;
+    }
+
+    if (from || to) {
+      match.startedAt = {
+        ...(from && { $gte: from }),
+        ...(to && { $lte: to }),
+      };
+    }
+
+    if (task?.length || project?.length) {
+      const taskIds = await Task.find({
+        ...(task?.length && { _id: { $in: task } }),
+        ...(project?.length && { project: { $in: project } }),
+      }).distinct('_id');
+      match.task = { $in: taskIds };
+    }
+
+    const report = await buildTimeReport(match, groupBy);
+
+    res.json({
+      success: true,
+      data: report,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
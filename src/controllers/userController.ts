@@ -1,16 +1,38 @@
 import { Response, NextFunction } from 'express';
-import { User } from '../models/User';
+import { User, UserRole } from '../models/User';
 import { Task } from '../models/Task';
 import { AppError } from '../utils/AppError';
+import { paginate } from '../utils/pagination';
 import { AuthRequest } from '../middleware/auth';
+import { revokeAllSessions } from '../services/tokenService';
+import { publishUserEvent } from '../services/eventBus';
+import { TASK_SELECTABLE_FIELDS } from '../services/taskQuery';
+import { assigneeFilter } from '../services/taskAccess';
+
+// User fields clients may pick with ?fields=
+const USER_SELECTABLE_FIELDS = [
+  'username',
+  'email',
+  'firstName',
+  'lastName',
+  'role',
+  'isActive',
+  'isEmailVerified',
+  'createdAt',
+  'updatedAt',
+];
 
 export const getAllUsers = async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
-    const { search, page = 1, limit = 10 } = req.query;
+    const { search, includeInactive } = req.query;
+
+    // Build filter (only admins may list deactivated accounts)
+    const filter: any = {};
+
+    if (!(includeInactive === 'true' && req.user?.role === UserRole.ADMIN)) {
+      filter.isActive = true;
+    }
 
-    // Build filter
-    const filter: any = { isActive: true };
-    
     if (search) {
       filter.$or = [
         { username: { $regex: search, $options: 'i' } },
@@ -20,29 +42,17 @@ export const getAllUsers = async (req: AuthRequest, res: Response, next: NextFun
       ];
     }
 
-    // Calculate pagination
-    const pageNum = parseInt(page as string, 10);
-    const limitNum = parseInt(limit as string, 10);
-    const skip = (pageNum - 1) * limitNum;
-
-    const users = await User.find(filter)
-      .select('-password')
-      .sort({ createdAt: -1 })
-      .skip(skip)
-      .limit(limitNum);
-
-    const total = await User.countDocuments(filter);
+    const { items: users, pagination } = await paginate(User, filter, req.query, {
+      sort: [['createdAt', -1]],
+      selectableFields: USER_SELECTABLE_FIELDS,
+      defaultSelect: '-password',
+    });
 
     res.json({
       success: true,
       data: {
         users,
-        pagination: {
-          page: pageNum,
-          limit: limitNum,
-          total,
-          pages: Math.ceil(total / limitNum),
-        },
+        pagination,
       },
     });
   } catch (error) {
@@ -60,10 +70,10 @@ export const getUser = async (req: AuthRequest, res: Response, next: NextFunctio
       return next(new AppError('User not found', 404));
     }
 
-    // Get user's task statistics
+    // Get user's task statistics; a task counts once whether they are its primary or a co-assignee
     const taskStats = await Task.aggregate([
       {
-        $match: { assignedTo: user._id },
+        $match: assigneeFilter(user._id),
       },
       {
         $group: {
@@ -112,6 +122,16 @@ export const deactivateUser = async (req: AuthRequest, res: Response, next: Next
       return next(new AppError('User not found', 404));
     }
 
+    // Existing tokens must stop working immediately
+    await revokeAllSessions(user._id);
+
+    publishUserEvent({
+      type: 'user.deactivated',
+      user,
+      actorId: req.user._id,
+      timestamp: new Date(),
+    });
+
     res.json({
       success: true,
       message: 'Account deactivated successfully',
@@ -121,10 +141,82 @@ export const deactivateUser = async (req: AuthRequest, res: Response, next: Next
   }
 };
 
+export const updateUserRole = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    const { id } = req.params;
+    const { role } = req.body;
+
+    // Prevent admins from locking themselves out
+    if (req.user._id.equals(id)) {
+      return next(new AppError('You cannot change your own role', 400));
+    }
+
+    const user = await User.findByIdAndUpdate(
+      id,
+      { role },
+      { new: true, runValidators: true }
+    );
+
+    if (!user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    res.json({
+      success: true,
+      message: 'User role updated successfully',
+      data: {
+        user: {
+          id: user._id,
+          username: user.username,
+          email: user.email,
+          role: user.role,
+        },
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const reactivateUser = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+
+    const user = await User.findByIdAndUpdate(
+      id,
+      { isActive: true },
+      { new: true }
+    );
+
+    if (!user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    res.json({
+      success: true,
+      message: 'Account reactivated successfully',
+      data: {
+        user: {
+          id: user._id,
+          username: user.username,
+          email: user.email,
+          isActive: user.isActive,
+        },
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
 export const getUserTasks = async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params;
-    const { status, priority, page = 1, limit = 10 } = req.query;
+    const { status, priority } = req.query;
 
     // Verify user exists
     const user = await User.findById(id);
@@ -133,7 +225,7 @@ export const getUserTasks = async (req: AuthRequest, res: Response, next: NextFu
     }
 
     // Build filter
-    const filter: any = { assignedTo: id };
+    const filter: any = assigneeFilter(user._id);
     
     if (status) {
       filter.status = status;
@@ -143,18 +235,11 @@ export const getUserTasks = async (req: AuthRequest, res: Response, next: NextFu
       filter.priority = priority;
     }
 
-    // Calculate pagination
-    const pageNum = parseInt(page as string, 10);
-    const limitNum = parseInt(limit as string, 10);
-    const skip = (pageNum - 1) * limitNum;
-
-    const tasks = await Task.find(filter)
-      .populate('createdBy', 'username email firstName lastName')
-      .sort({ createdAt: -1 })
-      .skip(skip)
-      .limit(limitNum);
-
-    const total = await Task.countDocuments(filter);
+    const { items: tasks, pagination } = await paginate(Task, filter, req.query, {
+      sort: [['createdAt', -1]],
+      selectableFields: TASK_SELECTABLE_FIELDS,
+      populate: [{ path: 'createdBy', select: 'username email firstName lastName' }],
+    });
 
     res.json({
       success: true,
@@ -166,12 +251,7 @@ export const getUserTasks = async (req: AuthRequest, res: Response, next: NextFu
           fullName: user.getFullName(),
         },
         tasks,
-        pagination: {
-          page: pageNum,
-          limit: limitNum,
-          total,
-          pages: Math.ceil(total / limitNum),
-        },
+        pagination,
       },
     });
   } catch (error) {
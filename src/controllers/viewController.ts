@@ -0,0 +1,265 @@
+import { Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
+import { SavedView, ISavedView, ViewVisibility } from '../models/SavedView';
+import { Project } from '../models/Project';
+import { Team } from '../models/Team';
+import { IUser, UserRole } from '../models/User';
+import { AppError } from '../utils/AppError';
+import { AuthRequest } from '../middleware/auth';
+import { getUserProjectIds, getUserTeamIds, participantTaskFilter } from '../services/taskAccess';
+import { parseTaskQuery, findTaskPage } from '../services/taskQuery';
+
+const ownerFields = 'username email firstName lastName';
+
+// Pagination parameters are taken from the request, never from the stored view
+const PAGE_PARAMS = ['page', 'limit', 'after', 'fields', 'count'];
+
+// Views the user can see: their own and those shared with one of their projects or teams
+const viewAccessFilter = async (user: IUser): Promise<any> => {
+  const projectIds = await getUserProjectIds(user._id);
+  const teamIds = await getUserTeamIds(user._id);
+
+  return {
+    $or: [
+      { owner: user._id },
+      { visibility: ViewVisibility.PROJECT, project: { $in: projectIds } },
+      { visibility: ViewVisibility.TEAM, team: { $in: teamIds } },
+    ],
+  };
+};
+
+const findAccessibleView = async (user: IUser, id: string): Promise<ISavedView> => {
+  const view = await SavedView.findOne({ _id: id, ...(await viewAccessFilter(user)) });
+  if (!view) {
+    throw new AppError('View not found', 404);
+  }
+
+  return view;
+};
+
+// Only the owner (or an admin) may change or delete a view
+const findOwnedView = async (user: IUser, id: string): Promise<ISavedView> => {
+  const view = await findAccessibleView(user, id);
+  if (!view.owner.equals(user._id) && user.role !== UserRole.ADMIN) {
+    throw new AppError('Only the view owner can change this view', 403);
+  }
+
+  return view;
+};
+
+// Views can only be shared with projects the user belongs to
+const checkProjectShareTarget = async (user: IUser, projectId: string): Promise<mongoose.Types.ObjectId> => {
+  const project = await Project.findById(projectId);
+  if (!project || !project.getMemberRole(user._id)) {
+    throw new AppError('Project not found', 404);
+  }
+
+  return project._id;
+};
+
+// Likewise, views can only be shared with teams the user belongs to
+const checkTeamShareTarget = async (user: IUser, teamId: string): Promise<mongoose.Types.ObjectId> => {
+  const team = await Team.findById(teamId);
+  if (!team || !team.getMemberRole(user._id)) {
+    throw new AppError('Team not found', 404);
+  }
+
+  return team._id;
+};
+
+export const createView = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    const { name, description, query, visibility = ViewVisibility.PRIVATE, project, team } = req.body;
+
+    if (await SavedView.exists({ owner: req.user._id, name })) {
+      return next(new AppError('A view with this name already exists', 400));
+    }
+
+    const view = new SavedView({
+      owner: req.user._id,
+      name,
+      description,
+      query,
+      visibility,
+      project: visibility === ViewVisibility.PROJECT ? await checkProjectShareTarget(req.user, project) : null,
+      team: visibility === ViewVisibility.TEAM ? await checkTeamShareTarget(req.user, team) : null,
+    });
+
+    await view.save();
+
+    res.status(201).json({
+      success: true,
+      message: 'View created successfully',
+      data: { view },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getViews = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    const { project, team } = req.query;
+
+    const filter: any = await viewAccessFilter(req.user);
+
+    if (project) {
+      filter.project = project;
+    }
+    if (team) {
+      filter.team = team;
+    }
+
+    const views = await SavedView.find(filter)
+      .populate('owner', ownerFields)
+      .populate('project', 'name')
+      .populate('team', 'name')
+      .sort({ name: 1 });
+
+    res.json({
+      success: true,
+      data: { views },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getView = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    const view = await findAccessibleView(req.user, req.params.id);
+    await view.populate([
+      { path: 'owner', select: ownerFields },
+      { path: 'project', select: 'name' },
+      { path: 'team', select: 'name' },
+    ]);
+
+    res.json({
+      success: true,
+      data: { view },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const updateView = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    const { name, description, query, visibility, project, team } = req.body;
+
+    const view = await findOwnedView(req.user, req.params.id);
+
+    if (name !== undefined && name !== view.name && await SavedView.exists({ owner: view.owner, name })) {
+      return next(new AppError('A view with this name already exists', 400));
+    }
+
+    if (name !== undefined) view.name = name;
+    if (description !== undefined) view.description = description;
+    if (query !== undefined) view.query = query;
+
+    // Re-check sharing whenever visibility or the shared project or team changes
+    if (visibility !== undefined || project !== undefined || team !== undefined) {
+      const nextVisibility = visibility ?? view.visibility;
+      const nextProject = project !== undefined ? project : view.project?.toString();
+      const nextTeam = team !== undefined ? team : view.team?.toString();
+
+      view.project = undefined;
+      view.team = undefined;
+
+      if (nextVisibility === ViewVisibility.PROJECT) {
+        if (!nextProject) {
+          return next(new AppError('A project is required to share a view with a project', 400));
+        }
+        view.project = await checkProjectShareTarget(req.user, nextProject);
+      } else if (nextVisibility === ViewVisibility.TEAM) {
+        if (!nextTeam) {
+          return next(new AppError('A team is required to share a view with a team', 400));
+        }
+        view.team = await checkTeamShareTarget(req.user, nextTeam);
+      }
+      view.visibility = nextVisibility;
+    }
+
+    await view.save();
+
+    res.json({
+      success: true,
+      message: 'View updated successfully',
+      data: { view },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const deleteView = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    const view = await findOwnedView(req.user, req.params.id);
+    await SavedView.findByIdAndDelete(view._id);
+
+    res.json({
+      success: true,
+      message: 'View deleted successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getViewTasks = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    const view = await findAccessibleView(req.user, req.params.id);
+
+    const pageParams: Record<string, unknown> = {};
+    for (const param of PAGE_PARAMS) {
+      if (req.query[param] !== undefined) {
+        pageParams[param] = req.query[param];
+      }
+    }
+
+    // Shared views still only return tasks the caller can see
+    const { tasks, pagination } = await findTaskPage(
+      parseTaskQuery({ ...view.query, ...pageParams }),
+      req.user,
+      await participantTaskFilter(req.user)
+    );
+
+    res.json({
+      success: true,
+      data: {
+        view: {
+          id: view._id,
+          name: view.name,
+        },
+        tasks,
+        pagination,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,259 @@
+import { Response, NextFunction } from 'express';
+import { Webhook, IWebhook } from '../models/Webhook';
+import { WebhookDelivery, DeliveryStatus } from '../models/WebhookDelivery';
+import { IUser, UserRole } from '../models/User';
+import { AppError } from '../utils/AppError';
+import { AuthRequest } from '../middleware/auth';
+import { generateWebhookSecret, assertPublicUrl, createDelivery, attemptDelivery } from '../services/webhooks';
+
+// Events about users are only available to admins
+const ADMIN_ONLY_EVENTS = ['user.deactivated'];
+
+const checkEventsAllowed = (user: IUser, events?: string[]): void => {
+  if (user.role !== UserRole.ADMIN && events?.some(event => ADMIN_ONLY_EVENTS.includes(event))) {
+    throw new AppError(`Only admins can subscribe to: ${ADMIN_ONLY_EVENTS.join(', ')}`, 403);
+  }
+};
+
+// Load a webhook owned by the user (admins can manage every webhook)
+const findOwnedWebhook = async (user: IUser, id: string, withSecret = false): Promise<IWebhook> => {
+  const query = Webhook.findOne({
+    _id: id,
+    ...(user.role !== UserRole.ADMIN && { owner: user._id }),
+  });
+
+  const webhook = withSecret ? await query.select('+secret') : await query;
+  if (!webhook) {
+    throw new AppError('Webhook not found', 404);
+  }
+
+  return webhook;
+};
+
+export const createWebhook = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    const { url, description, events } = req.body;
+
+    checkEventsAllowed(req.user, events);
+    await assertPublicUrl(url);
+
+    const secret = generateWebhookSecret();
+
+    const webhook = await Webhook.create({
+      owner: req.user._id,
+      url,
+      description,
+      events,
+      secret,
+    });
+
+    // The secret is only ever shown once, at creation
+    res.status(201).json({
+      success: true,
+      message: 'Webhook created successfully',
+      data: {
+        webhook: {
+          ...webhook.toJSON(),
+          secret,
+        },
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getWebhooks = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    // Admins may list every webhook with ?all=true
+    const filter: any = {};
+    if (!(req.query.all === 'true' && req.user.role === UserRole.ADMIN)) {
+      filter.owner = req.user._id;
+    }
+
+    const webhooks = await Webhook.find(filter)
+      .populate('owner', 'username email')
+      .sort({ createdAt: -1 });
+
+    res.json({
+      success: true,
+      data: { webhooks },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getWebhook = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    const webhook = await findOwnedWebhook(req.user, req.params.id);
+
+    res.json({
+      success: true,
+      data: { webhook },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const updateWebhook = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    const { url, description, events, isActive } = req.body;
+
+    checkEventsAllowed(req.user, events);
+
+    const webhook = await findOwnedWebhook(req.user, req.params.id);
+
+    if (url !== undefined) {
+      await assertPublicUrl(url);
+      webhook.url = url;
+    }
+    if (description !== undefined) webhook.description = description;
+    if (events !== undefined) webhook.events = events;
+    if (isActive !== undefined) webhook.isActive = isActive;
+
+    await webhook.save();
+
+    res.json({
+      success: true,
+      message: 'Webhook updated successfully',
+      data: { webhook },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const rotateWebhookSecret = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    const webhook = await findOwnedWebhook(req.user, req.params.id, true);
+
+    const secret = generateWebhookSecret();
+    webhook.secret = secret;
+    await webhook.save();
+
+    res.json({
+      success: true,
+      message: 'Webhook secret rotated successfully',
+      data: { secret },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const deleteWebhook = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    const webhook = await findOwnedWebhook(req.user, req.params.id);
+
+    await Webhook.findByIdAndDelete(webhook._id);
+    await WebhookDelivery.deleteMany({ webhook: webhook._id });
+
+    res.json({
+      success: true,
+      message: 'Webhook deleted successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getWebhookDeliveries = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    // req.query has already been converted by webhookDeliveryQuerySchema
+    const { status, page, limit } = req.query as unknown as {
+      status?: DeliveryStatus;
+      page: number;
+      limit: number;
+    };
+
+    const webhook = await findOwnedWebhook(req.user, req.params.id);
+
+    // Build filter
+    const filter: any = { webhook: webhook._id };
+
+    if (status) {
+      filter.status = status;
+    }
+
+    // Calculate pagination
+    const skip = (page - 1) * limit;
+
+    const deliveries = await WebhookDelivery.find(filter)
+      .sort({ createdAt: -1 })
+      .skip(skip)
+      .limit(limit);
+
+    const total = await WebhookDelivery.countDocuments(filter);
+
+    res.json({
+      success: true,
+      data: {
+        deliveries,
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit),
+        },
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const sendTestEvent = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    const webhook = await findOwnedWebhook(req.user, req.params.id);
+
+    // The first attempt is made inline so the caller sees the result straight away
+    const created = await createDelivery(webhook, 'webhook.test', {
+      message: 'This is a test event',
+      webhook: webhook._id.toString(),
+      sentBy: req.user._id.toString(),
+    });
+    const delivery = await attemptDelivery(created._id);
+
+    res.json({
+      success: true,
+      message: 'Test event sent',
+      data: { delivery },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
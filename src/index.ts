@@ -8,8 +8,21 @@ import { logger } from './utils/logger';
 import authRoutes from './routes/auth';
 import taskRoutes from './routes/tasks';
 import userRoutes from './routes/users';
+import projectRoutes from './routes/projects';
+import eventRoutes from './routes/events';
+import notificationRoutes from './routes/notifications';
+import webhookRoutes from './routes/webhooks';
+import adminRoutes from './routes/admin';
+import viewRoutes from './routes/views';
+import calendarRoutes from './routes/calendar';
+import teamRoutes from './routes/teams';
+import timeRoutes from './routes/time';
+import sprintRoutes from './routes/sprints';
 import { errorHandler } from './middleware/errorHandler';
 import { notFound } from './middleware/notFound';
+import { loadTaskWorkflow } from './services/taskWorkflow';
+import { defineDefaultJobs } from './services/jobs';
+import { startJobRunner } from './services/jobRunner';
 
 // Load environment variables
 dotenv.config();
@@ -49,6 +62,16 @@ app.get('/health', (req, res) => {
 app.use('/api/auth', authRoutes);
 app.use('/api/tasks', taskRoutes);
 app.use('/api/users', userRoutes);
+app.use('/api/projects', projectRoutes);
+app.use('/api/teams', teamRoutes);
+app.use('/api/time', timeRoutes);
+app.use('/api/sprints', sprintRoutes);
+app.use('/api/events', eventRoutes);
+app.use('/api/notifications', notificationRoutes);
+app.use('/api/webhooks', webhookRoutes);
+app.use('/api/views', viewRoutes);
+app.use('/api/calendar', calendarRoutes);
+app.use('/api/admin', adminRoutes);
 
 // Error handling middleware
 app.use(notFound);
@@ -57,7 +80,10 @@ app.use(errorHandler);
 // Start server
 const startServer = async () => {
   try {
+    loadTaskWorkflow();
     await connectDB();
+    defineDefaultJobs();
+    await startJobRunner();
     app.listen(PORT, () => {
       logger.info(`Server running on port ${PORT} in ${process.env.NODE_ENV} mode`);
     });
@@ -1,12 +1,45 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
-import { User, IUser } from '../models/User';
+import { User, IUser, UserRole } from '../models/User';
 import { AppError } from '../utils/AppError';
+import { AccessTokenPayload, StreamTokenPayload } from '../services/tokenService';
 
 interface AuthRequest extends Request {
   user?: IUser;
+  // When the credentials used for this request expire
+  tokenExpiresAt?: Date;
 }
 
+// Load the user a verified token was issued to and check the token has not been revoked since
+const loadTokenUser = async (decoded: AccessTokenPayload): Promise<IUser> => {
+  const user = await User.findById(decoded.userId);
+  if (!user) {
+    throw new AppError('User not found', 404);
+  }
+
+  if (!user.isActive) {
+    throw new AppError('User account is deactivated', 403);
+  }
+
+  // Tokens issued before a password change, deactivation or logout-all are revoked
+  if ((decoded.tokenVersion ?? 0) !== user.tokenVersion) {
+    throw new AppError('Token has been revoked', 401);
+  }
+
+  return user;
+};
+
+const toAuthError = (error: unknown): unknown => {
+  // TokenExpiredError extends JsonWebTokenError, so it must be checked first
+  if (error instanceof jwt.TokenExpiredError) {
+    return new AppError('Token expired', 401);
+  }
+  if (error instanceof jwt.JsonWebTokenError) {
+    return new AppError('Invalid token', 401);
+  }
+  return error;
+};
+
 export const authenticate = async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
     const token = req.header('Authorization')?.replace('Bearer ', '');
@@ -19,41 +52,69 @@ export const authenticate = async (req: AuthRequest, res: Response, next: NextFu
       return next(new AppError('JWT secret not configured', 500));
     }
 
-    const decoded = jwt.verify(token, process.env.JWT_SECRET) as { userId: string };
-    
-    const user = await User.findById(decoded.userId);
-    if (!user) {
-      return next(new AppError('User not found', 404));
-    }
+    const decoded = jwt.verify(token, process.env.JWT_SECRET) as AccessTokenPayload & jwt.JwtPayload;
 
-    if (!user.isActive) {
-      return next(new AppError('User account is deactivated', 403));
+    // Single-purpose tokens cannot be used as access tokens
+    if (decoded.purpose) {
+      return next(new AppError('Invalid token', 401));
     }
 
-    req.user = user;
+    req.user = await loadTokenUser(decoded);
+    req.tokenExpiresAt = decoded.exp ? new Date(decoded.exp * 1000) : undefined;
     next();
   } catch (error) {
-    if (error instanceof jwt.JsonWebTokenError) {
-      return next(new AppError('Invalid token', 401));
+    next(toAuthError(error));
+  }
+};
+
+// EventSource clients cannot send headers, so the event stream also takes a stream token from ?token=
+export const authenticateStream = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  const { token } = req.query;
+
+  if (req.header('Authorization') || typeof token !== 'string') {
+    return authenticate(req, res, next);
+  }
+
+  try {
+    if (!process.env.JWT_SECRET) {
+      return next(new AppError('JWT secret not configured', 500));
     }
-    if (error instanceof jwt.TokenExpiredError) {
-      return next(new AppError('Token expired', 401));
+
+    const decoded = jwt.verify(token, process.env.JWT_SECRET) as StreamTokenPayload;
+    if (decoded.purpose !== 'event-stream') {
+      return next(new AppError('Invalid token', 401));
     }
-    next(error);
+
+    req.user = await loadTokenUser(decoded);
+    req.tokenExpiresAt = new Date(decoded.sessionExp * 1000);
+    next();
+  } catch (error) {
+    next(toAuthError(error));
   }
 };
 
-export const authorize = (...roles: string[]) => {
+export const authorize = (...roles: UserRole[]) => {
+  return (req: AuthRequest, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return next(new AppError('Authentication required', 401));
+    }
+
+    if (!roles.includes(req.user.role)) {
+      return next(new AppError('Insufficient permissions', 403));
+    }
+
+    next();
+  };
+};
+
+// Users may act on their own account (the :id route parameter); the given roles on anyone's
+export const authorizeSelfOr = (...roles: UserRole[]) => {
   return (req: AuthRequest, res: Response, next: NextFunction) => {
     if (!req.user) {
       return next(new AppError('Authentication required', 401));
     }
 
-    // For this simple example, we'll assume all authenticated users have 'user' role
-    // In a real application, you'd have a role field in the user model
-    const userRole = 'user';
-    
-    if (!roles.includes(userRole)) {
+    if (req.params.id !== req.user._id.toString() && !roles.includes(req.user.role)) {
       return next(new AppError('Insufficient permissions', 403));
     }
 
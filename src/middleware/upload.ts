@@ -0,0 +1,63 @@
+import { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import { AppError } from '../utils/AppError';
+
+const DEFAULT_ALLOWED_TYPES = [
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp',
+  'application/pdf',
+  'text/plain',
+  'text/csv',
+  'text/markdown',
+  'application/json',
+  'application/zip',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+];
+
+const maxFileSize = parseInt(process.env.ATTACHMENT_MAX_SIZE_MB || '10', 10) * 1024 * 1024;
+
+const allowedTypes = process.env.ATTACHMENT_ALLOWED_TYPES
+  ? process.env.ATTACHMENT_ALLOWED_TYPES.split(',').map(type => type.trim())
+  : DEFAULT_ALLOWED_TYPES;
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: maxFileSize,
+    files: 1,
+  },
+  fileFilter: (req, file, callback) => {
+    if (!allowedTypes.includes(file.mimetype)) {
+      return callback(new AppError(`File type ${file.mimetype} is not allowed`, 415));
+    }
+    callback(null, true);
+  },
+});
+
+// Accept a single multipart file field, turning multer errors into AppErrors
+export const uploadSingle = (field: string) => {
+  const handler = upload.single(field);
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    handler(req, res, (error: unknown) => {
+      if (error instanceof multer.MulterError) {
+        const message = error.code === 'LIMIT_FILE_SIZE'
+          ? `File cannot exceed ${maxFileSize / (1024 * 1024)}MB`
+          : error.message;
+        return next(new AppError(message, error.code === 'LIMIT_FILE_SIZE' ? 413 : 400));
+      }
+      if (error) {
+        return next(error);
+      }
+      if (!req.file) {
+        return next(new AppError(`A file must be uploaded in the "${field}" field`, 400));
+      }
+      next();
+    });
+  };
+};
@@ -0,0 +1,106 @@
+import { Request, Response } from 'express';
+import { AppError } from '../utils/AppError';
+import {
+  pageQuerySchema,
+  projectQuerySchema,
+  updateTaskSchema,
+  validate,
+  validateQuery,
+  webhookDeliveryQuerySchema,
+} from './validation';
+
+// Run a body through the validate middleware and report what the handler would receive
+const runValidate = (schema: Parameters<typeof validate>[0], body: Record<string, unknown>) => {
+  const req = { body } as Request;
+  const next = jest.fn();
+
+  validate(schema)(req, {} as Response, next);
+
+  const [error] = next.mock.calls[0];
+  return { body: req.body, error: error as AppError | undefined };
+};
+
+// Run a query string through the validateQuery middleware and report what the handler would receive
+const runValidateQuery = (schema: Parameters<typeof validateQuery>[0], query: Record<string, string>) => {
+  const req = { query } as unknown as Request;
+  const next = jest.fn();
+
+  validateQuery(schema)(req, {} as Response, next);
+
+  const [error] = next.mock.calls[0];
+  return { query: req.query as Record<string, unknown>, error: error as AppError | undefined };
+};
+
+const userId = '64b7f0c2a1b2c3d4e5f60718';
+
+describe('validate', () => {
+  it('hands only validated fields to the handler', () => {
+    const { body, error } = runValidate(updateTaskSchema, {
+      title: 'Updated',
+      watchers: [userId],
+      assignees: [userId],
+    });
+
+    expect(error).toBeUndefined();
+    expect(body).toEqual({ title: 'Updated' });
+  });
+
+  it('rejects dependency changes outside the dependency endpoints', () => {
+    const { error } = runValidate(updateTaskSchema, { blockedBy: [userId] });
+
+    expect(error).toMatchObject({
+      message: 'Use /api/tasks/:id/dependencies to change dependencies',
+      statusCode: 400,
+    });
+  });
+
+  it('rejects reassigning a task through an update', () => {
+    const { error } = runValidate(updateTaskSchema, { assignedTo: userId });
+
+    expect(error).toMatchObject({ statusCode: 400 });
+    expect(error?.message).toContain('use the bulk reassign action');
+  });
+
+  it('passes converted values on', () => {
+    const { body } = runValidate(updateTaskSchema, { dueDate: '2999-01-01T00:00:00.000Z' });
+
+    expect(body.dueDate).toEqual(new Date('2999-01-01T00:00:00.000Z'));
+  });
+
+  it('reports every failing field', () => {
+    const { error } = runValidate(updateTaskSchema, { status: 'done', priority: 'someday' });
+
+    expect(error).toMatchObject({ statusCode: 400 });
+    expect(error?.message).toContain('Status must be one of');
+    expect(error?.message).toContain('Priority must be one of');
+  });
+});
+
+describe('page queries', () => {
+  it('fills in the default page and limit', () => {
+    expect(runValidateQuery(pageQuerySchema, {}).query).toEqual({ page: 1, limit: 20 });
+    expect(runValidateQuery(projectQuerySchema, {}).query).toEqual({ page: 1, limit: 10, includeArchived: false });
+  });
+
+  it('converts page and limit to numbers', () => {
+    expect(runValidateQuery(pageQuerySchema, { page: '3', limit: '50' }).query).toEqual({ page: 3, limit: 50 });
+  });
+
+  it.each<Record<string, string>>([
+    { limit: '0' },
+    { limit: 'abc' },
+    { limit: '1000' },
+    { page: '0' },
+    { page: '1.5' },
+  ])('rejects %p', query => {
+    expect(runValidateQuery(pageQuerySchema, query).error).toMatchObject({ statusCode: 400 });
+  });
+
+  it('only filters webhook deliveries by known statuses', () => {
+    expect(runValidateQuery(webhookDeliveryQuerySchema, { status: 'failed' }).query.status).toBe('failed');
+    expect(runValidateQuery(webhookDeliveryQuerySchema, { status: 'nope' }).error).toMatchObject({
+      message: 'Status must be one of: pending, succeeded, failed',
+      statusCode: 400,
+    });
+  });
+});
@@ -2,9 +2,10 @@ import { Request, Response, NextFunction } from 'express';
 import Joi from 'joi';
 import { AppError } from '../utils/AppError';
 
+// Validate the body; only the validated value reaches the handler, so unknown fields never do
 export const validate = (schema: Joi.ObjectSchema) => {
   return (req: Request, res: Response, next: NextFunction) => {
-    const { error } = schema.validate(req.body, {
+    const { error, value } = schema.validate(req.body, {
       abortEarly: false,
       allowUnknown: false,
       stripUnknown: true,
@@ -17,11 +18,94 @@ export const validate = (schema: Joi.ObjectSchema) => {
       return next(new AppError(errorMessage, 400));
     }
 
+    req.body = value;
     next();
   };
 };
 
+// Validate the query string; converted values (numbers, dates, lists) replace req.query
+export const validateQuery = (schema: Joi.ObjectSchema) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const { error, value } = schema.validate(req.query, {
+      abortEarly: false,
+      allowUnknown: false,
+      stripUnknown: true,
+    });
+
+    if (error) {
+      const errorMessage = error.details
+        .map((detail) => detail.message)
+        .join(', ');
+      return next(new AppError(errorMessage, 400));
+    }
+
+    req.query = value;
+    next();
+  };
+};
+
+// Accepts both "a,b" and repeated ?key=a&key=b query parameters as an array
+const QueryJoi: Joi.Root & { list(): Joi.ArraySchema } = Joi.extend({
+  type: 'list',
+  base: Joi.array(),
+  coerce: {
+    from: 'string',
+    method(value: string) {
+      return {
+        value: value
+          .split(',')
+          .map(item => item.trim())
+          .filter(Boolean),
+      };
+    },
+  },
+});
+
 // Validation schemas
+const recurrenceSchema = Joi.object({
+  frequency: Joi.string()
+    .valid('daily', 'weekly', 'monthly', 'yearly')
+    .required()
+    .messages({
+      'any.only': 'Frequency must be one of: daily, weekly, monthly, yearly',
+    }),
+  interval: Joi.number()
+    .integer()
+    .min(1)
+    .max(365)
+    .messages({
+      'number.min': 'Interval must be at least 1',
+    }),
+  byWeekday: Joi.array()
+    .items(Joi.number().integer().min(0).max(6))
+    .unique()
+    .messages({
+      'number.max': 'Weekdays must be between 0 (Sunday) and 6 (Saturday)',
+    }),
+  byMonthDay: Joi.number()
+    .integer()
+    .min(1)
+    .max(31)
+    .messages({
+      'number.max': 'Day of month must be between 1 and 31',
+    }),
+  until: Joi.date()
+    .min('now')
+    .messages({
+      'date.min': 'Recurrence end date must be in the future',
+    }),
+  count: Joi.number()
+    .integer()
+    .min(1)
+    .messages({
+      'number.min': 'Recurrence count must be at least 1',
+    }),
+})
+  .oxor('until', 'count')
+  .messages({
+    'object.oxor': 'Recurrence can end on a date or after a count, not both',
+  });
+
 export const registerSchema = Joi.object({
   username: Joi.string()
     .alphanum()
@@ -79,6 +163,51 @@ export const loginSchema = Joi.object({
     }),
 });
 
+export const refreshTokenSchema = Joi.object({
+  refreshToken: Joi.string()
+    .required()
+    .messages({
+      'any.required': 'Refresh token is required',
+    }),
+});
+
+export const emailSchema = Joi.object({
+  email: Joi.string()
+    .email()
+    .required()
+    .messages({
+      'string.email': 'Please provide a valid email address',
+    }),
+});
+
+export const tokenSchema = Joi.object({
+  token: Joi.string()
+    .required()
+    .messages({
+      'any.required': 'Token is required',
+    }),
+});
+
+export const resetPasswordSchema = Joi.object({
+  token: Joi.string()
+    .required()
+    .messages({
+      'any.required': 'Token is required',
+    }),
+  password: Joi.string()
+    .min(6)
+    .required()
+    .messages({
+      'string.min': 'Password must be at least 6 characters long',
+    }),
+  confirmPassword: Joi.string()
+    .valid(Joi.ref('password'))
+    .required()
+    .messages({
+      'any.only': 'Passwords do not match',
+    }),
+});
+
 export const taskSchema = Joi.object({
   title: Joi.string()
     .max(200)
@@ -112,12 +241,50 @@ export const taskSchema = Joi.object({
     .messages({
       'string.max': 'Each tag cannot exceed 30 characters',
     }),
+  estimate: Joi.number()
+    .integer()
+    .min(0)
+    .messages({
+      'number.min': 'Estimate cannot be negative',
+    }),
   assignedTo: Joi.string()
     .pattern(/^[0-9a-fA-F]{24}$/)
     .messages({
       'string.pattern.base': 'Invalid user ID format',
     }),
-});
+  assignees: Joi.array()
+    .items(Joi.string().pattern(/^[0-9a-fA-F]{24}$/))
+    .max(20)
+    .messages({
+      'string.pattern.base': 'Invalid user ID format',
+      'array.max': 'A task can have at most 20 co-assignees',
+    }),
+  team: Joi.string()
+    .pattern(/^[0-9a-fA-F]{24}$/)
+    .messages({
+      'string.pattern.base': 'Invalid team ID format',
+    }),
+  project: Joi.string()
+    .pattern(/^[0-9a-fA-F]{24}$/)
+    .messages({
+      'string.pattern.base': 'Invalid project ID format',
+    }),
+  sprint: Joi.string()
+    .pattern(/^[0-9a-fA-F]{24}$/)
+    .messages({
+      'string.pattern.base': 'Invalid sprint ID format',
+    }),
+  parent: Joi.string()
+    .pattern(/^[0-9a-fA-F]{24}$/)
+    .messages({
+      'string.pattern.base': 'Invalid parent task ID format',
+    }),
+  recurrence: recurrenceSchema,
+})
+  .with('recurrence', 'dueDate')
+  .messages({
+    'object.with': 'Recurring tasks need a due date',
+  });
 
 export const updateTaskSchema = Joi.object({
   title: Joi.string()
@@ -152,4 +319,733 @@ export const updateTaskSchema = Joi.object({
     .messages({
       'string.max': 'Each tag cannot exceed 30 characters',
     }),
+  estimate: Joi.number()
+    .integer()
+    .min(0)
+    .allow(null)
+    .messages({
+      'number.min': 'Estimate cannot be negative',
+    }),
+  team: Joi.string()
+    .pattern(/^[0-9a-fA-F]{24}$/)
+    .allow(null)
+    .messages({
+      'string.pattern.base': 'Invalid team ID format',
+    }),
+  project: Joi.string()
+    .pattern(/^[0-9a-fA-F]{24}$/)
+    .allow(null)
+    .messages({
+      'string.pattern.base': 'Invalid project ID format',
+    }),
+  sprint: Joi.string()
+    .pattern(/^[0-9a-fA-F]{24}$/)
+    .allow(null)
+    .messages({
+      'string.pattern.base': 'Invalid sprint ID format',
+    }),
+  parent: Joi.string()
+    .pattern(/^[0-9a-fA-F]{24}$/)
+    .allow(null)
+    .messages({
+      'string.pattern.base': 'Invalid parent task ID format',
+    }),
+  recurrence: recurrenceSchema.allow(null),
+  // Assignees are checked for membership where they are changed: claiming, co-assignees and bulk reassign
+  assignedTo: Joi.forbidden().messages({
+    'any.unknown': 'The assignee cannot be changed here; use the bulk reassign action',
+  }),
+  // Dependencies are checked for visibility and cycles, so they only change through their own endpoints
+  blockedBy: Joi.forbidden().messages({
+    'any.unknown': 'Use /api/tasks/:id/dependencies to change dependencies',
+  }),
+});
+
+export const dependencySchema = Joi.object({
+  taskId: Joi.string()
+    .pattern(/^[0-9a-fA-F]{24}$/)
+    .required()
+    .messages({
+      'string.pattern.base': 'Invalid task ID format',
+    }),
+});
+
+// Co-assignees and watchers
+export const taskUserSchema = Joi.object({
+  userId: Joi.string()
+    .pattern(/^[0-9a-fA-F]{24}$/)
+    .required()
+    .messages({
+      'string.pattern.base': 'Invalid user ID format',
+    }),
+});
+
+export const timeEntrySchema = Joi.object({
+  minutes: Joi.number()
+    .integer()
+    .min(1)
+    .max(24 * 60)
+    .required()
+    .messages({
+      'number.min': 'Logged time must be at least 1 minute',
+      'number.max': 'Logged time cannot exceed 24 hours per entry',
+    }),
+  startedAt: Joi.date()
+    .max('now')
+    .messages({
+      'date.max': 'Time cannot be logged in the future',
+    }),
+  note: Joi.string()
+    .max(500)
+    .allow('')
+    .messages({
+      'string.max': 'Note cannot exceed 500 characters',
+    }),
+});
+
+export const updateTimeEntrySchema = timeEntrySchema.fork(['minutes'], schema => schema.optional());
+
+export const startTimerSchema = Joi.object({
+  note: Joi.string()
+    .max(500)
+    .allow('')
+    .messages({
+      'string.max': 'Note cannot exceed 500 characters',
+    }),
+});
+
+export const transitionTaskSchema = Joi.object({
+  status: Joi.string()
+    .valid('pending', 'in_progress', 'completed', 'cancelled')
+    .required()
+    .messages({
+      'any.only': 'Status must be one of: pending, in_progress, completed, cancelled',
+    }),
+});
+
+export const updateRoleSchema = Joi.object({
+  role: Joi.string()
+    .valid('admin', 'manager', 'member')
+    .required()
+    .messages({
+      'any.only': 'Role must be one of: admin, manager, member',
+    }),
+});
+
+export const projectSchema = Joi.object({
+  name: Joi.string()
+    .max(100)
+    .required()
+    .messages({
+      'string.max': 'Project name cannot exceed 100 characters',
+    }),
+  description: Joi.string()
+    .max(1000)
+    .allow('')
+    .messages({
+      'string.max': 'Description cannot exceed 1000 characters',
+    }),
+});
+
+// Maximum number of tasks in a board column; null removes the limit
+const wipLimitSchema = Joi.number()
+  .integer()
+  .min(1)
+  .allow(null)
+  .messages({
+    'number.min': 'WIP limits must be at least 1',
+  });
+
+export const updateProjectSchema = Joi.object({
+  name: Joi.string()
+    .max(100)
+    .messages({
+      'string.max': 'Project name cannot exceed 100 characters',
+    }),
+  description: Joi.string()
+    .max(1000)
+    .allow('')
+    .messages({
+      'string.max': 'Description cannot exceed 1000 characters',
+    }),
+  isArchived: Joi.boolean(),
+  wipLimits: Joi.object({
+    pending: wipLimitSchema,
+    in_progress: wipLimitSchema,
+    completed: wipLimitSchema,
+    cancelled: wipLimitSchema,
+  }),
+});
+
+export const projectMemberSchema = Joi.object({
+  userId: Joi.string()
+    .pattern(/^[0-9a-fA-F]{24}$/)
+    .required()
+    .messages({
+      'string.pattern.base': 'Invalid user ID format',
+    }),
+  role: Joi.string()
+    .valid('manager', 'member', 'viewer')
+    .messages({
+      'any.only': 'Role must be one of: manager, member, viewer',
+    }),
+});
+
+export const updateProjectMemberSchema = Joi.object({
+  role: Joi.string()
+    .valid('manager', 'member', 'viewer')
+    .required()
+    .messages({
+      'any.only': 'Role must be one of: manager, member, viewer',
+    }),
+});
+
+export const teamSchema = Joi.object({
+  name: Joi.string()
+    .max(100)
+    .required()
+    .messages({
+      'string.max': 'Team name cannot exceed 100 characters',
+    }),
+  description: Joi.string()
+    .max(1000)
+    .allow('')
+    .messages({
+      'string.max': 'Description cannot exceed 1000 characters',
+    }),
+});
+
+export const updateTeamSchema = Joi.object({
+  name: Joi.string()
+    .max(100)
+    .messages({
+      'string.max': 'Team name cannot exceed 100 characters',
+    }),
+  description: Joi.string()
+    .max(1000)
+    .allow('')
+    .messages({
+      'string.max': 'Description cannot exceed 1000 characters',
+    }),
+});
+
+export const teamMemberSchema = Joi.object({
+  userId: Joi.string()
+    .pattern(/^[0-9a-fA-F]{24}$/)
+    .required()
+    .messages({
+      'string.pattern.base': 'Invalid user ID format',
+    }),
+  role: Joi.string()
+    .valid('lead', 'member')
+    .messages({
+      'any.only': 'Role must be one of: lead, member',
+    }),
+});
+
+export const updateTeamMemberSchema = Joi.object({
+  role: Joi.string()
+    .valid('lead', 'member')
+    .required()
+    .messages({
+      'any.only': 'Role must be one of: lead, member',
+    }),
+});
+
+export const sprintSchema = Joi.object({
+  name: Joi.string()
+    .max(100)
+    .required()
+    .messages({
+      'string.max': 'Sprint name cannot exceed 100 characters',
+    }),
+  goal: Joi.string()
+    .max(1000)
+    .allow('')
+    .messages({
+      'string.max': 'Goal cannot exceed 1000 characters',
+    }),
+  project: Joi.string()
+    .pattern(/^[0-9a-fA-F]{24}$/)
+    .required()
+    .messages({
+      'string.pattern.base': 'Invalid project ID format',
+    }),
+  startDate: Joi.date()
+    .iso()
+    .required(),
+  endDate: Joi.date()
+    .iso()
+    .min(Joi.ref('startDate'))
+    .required()
+    .messages({
+      'date.min': 'End date must not be before the start date',
+    }),
+});
+
+// The project is fixed; date order is checked against the stored dates by the model
+export const updateSprintSchema = Joi.object({
+  name: Joi.string()
+    .max(100)
+    .messages({
+      'string.max': 'Sprint name cannot exceed 100 characters',
+    }),
+  goal: Joi.string()
+    .max(1000)
+    .allow('')
+    .messages({
+      'string.max': 'Goal cannot exceed 1000 characters',
+    }),
+  startDate: Joi.date().iso(),
+  endDate: Joi.date()
+    .iso()
+    .when('startDate', { is: Joi.exist(), then: Joi.date().min(Joi.ref('startDate')) })
+    .messages({
+      'date.min': 'End date must not be before the start date',
+    }),
+});
+
+export const sprintTasksSchema = Joi.object({
+  taskIds: Joi.array()
+    .items(Joi.string().pattern(/^[0-9a-fA-F]{24}$/))
+    .min(1)
+    .max(500)
+    .unique()
+    .required()
+    .messages({
+      'string.pattern.base': 'Invalid task ID format',
+      'array.min': 'Provide at least one task ID',
+      'array.max': 'At most 500 tasks can be added at once',
+    }),
+});
+
+export const commentSchema = Joi.object({
+  body: Joi.string()
+    .max(2000)
+    .required()
+    .messages({
+      'string.max': 'Comment cannot exceed 2000 characters',
+    }),
+  parent: Joi.string()
+    .pattern(/^[0-9a-fA-F]{24}$/)
+    .messages({
+      'string.pattern.base': 'Invalid comment ID format',
+    }),
+});
+
+export const updateCommentSchema = Joi.object({
+  body: Joi.string()
+    .max(2000)
+    .required()
+    .messages({
+      'string.max': 'Comment cannot exceed 2000 characters',
+    }),
+});
+
+export const notificationPreferencesSchema = Joi.object({
+  taskAssigned: Joi.boolean(),
+  taskReassigned: Joi.boolean(),
+  taskStatusChanged: Joi.boolean(),
+  taskDueSoon: Joi.boolean(),
+  taskOverdue: Joi.boolean(),
+})
+  .min(1)
+  .messages({
+    'object.min': 'At least one preference must be provided',
+  });
+
+export const webhookSchema = Joi.object({
+  url: Joi.string()
+    .uri({ scheme: ['http', 'https'] })
+    .max(2000)
+    .required()
+    .messages({
+      'string.uri': 'Webhook URL must be a valid http or https URL',
+    }),
+  description: Joi.string()
+    .max(200)
+    .allow('')
+    .messages({
+      'string.max': 'Description cannot exceed 200 characters',
+    }),
+  events: Joi.array()
+    .items(Joi.string().valid('task.created', 'task.updated', 'task.completed', 'task.deleted', 'user.deactivated'))
+    .min(1)
+    .unique()
+    .required()
+    .messages({
+      'any.only': 'Events must be one of: task.created, task.updated, task.completed, task.deleted, user.deactivated',
+      'array.min': 'Subscribe to at least one event',
+    }),
+});
+
+export const updateWebhookSchema = Joi.object({
+  url: Joi.string()
+    .uri({ scheme: ['http', 'https'] })
+    .max(2000)
+    .messages({
+      'string.uri': 'Webhook URL must be a valid http or https URL',
+    }),
+  description: Joi.string()
+    .max(200)
+    .allow('')
+    .messages({
+      'string.max': 'Description cannot exceed 200 characters',
+    }),
+  events: Joi.array()
+    .items(Joi.string().valid('task.created', 'task.updated', 'task.completed', 'task.deleted', 'user.deactivated'))
+    .min(1)
+    .unique()
+    .messages({
+      'any.only': 'Events must be one of: task.created, task.updated, task.completed, task.deleted, user.deactivated',
+      'array.min': 'Subscribe to at least one event',
+    }),
+  isActive: Joi.boolean(),
+});
+
+const objectIdOrMe = Joi.alternatives().try(
+  Joi.string().pattern(/^[0-9a-fA-F]{24}$/),
+  Joi.string().valid('me')
+);
+
+export const taskQuerySchema = Joi.object({
+  status: QueryJoi.list()
+    .items(Joi.string().valid('pending', 'in_progress', 'completed', 'cancelled'))
+    .messages({
+      'any.only': 'Status must be one of: pending, in_progress, completed, cancelled',
+    }),
+  priority: QueryJoi.list()
+    .items(Joi.string().valid('low', 'medium', 'high', 'urgent'))
+    .messages({
+      'any.only': 'Priority must be one of: low, medium, high, urgent',
+    }),
+  assignedTo: QueryJoi.list()
+    .items(objectIdOrMe)
+    .messages({
+      'alternatives.match': 'assignedTo must be user IDs or "me"',
+    }),
+  createdBy: QueryJoi.list()
+    .items(objectIdOrMe)
+    .messages({
+      'alternatives.match': 'createdBy must be user IDs or "me"',
+    }),
+  project: QueryJoi.list()
+    .items(Joi.string().pattern(/^[0-9a-fA-F]{24}$/))
+    .messages({
+      'string.pattern.base': 'Invalid project ID format',
+    }),
+  team: QueryJoi.list()
+    .items(Joi.string().pattern(/^[0-9a-fA-F]{24}$/))
+    .messages({
+      'string.pattern.base': 'Invalid team ID format',
+    }),
+  sprint: QueryJoi.list()
+    .items(Joi.string().pattern(/^[0-9a-fA-F]{24}$/))
+    .messages({
+      'string.pattern.base': 'Invalid sprint ID format',
+    }),
+  mine: Joi.boolean(),
+  watching: Joi.boolean(),
+  unassigned: Joi.boolean(),
+  overdue: Joi.boolean(),
+  dueAfter: Joi.date().iso(),
+  dueBefore: Joi.date()
+    .iso()
+    .when('dueAfter', { is: Joi.exist(), then: Joi.date().min(Joi.ref('dueAfter')) })
+    .messages({
+      'date.min': 'dueBefore must not be earlier than dueAfter',
+    }),
+  createdAfter: Joi.date().iso(),
+  createdBefore: Joi.date()
+    .iso()
+    .when('createdAfter', { is: Joi.exist(), then: Joi.date().min(Joi.ref('createdAfter')) })
+    .messages({
+      'date.min': 'createdBefore must not be earlier than createdAfter',
+    }),
+  tags: QueryJoi.list().items(Joi.string().max(30)),
+  tagMatch: Joi.string()
+    .valid('any', 'all', 'none')
+    .default('any')
+    .messages({
+      'any.only': 'tagMatch must be one of: any, all, none',
+    }),
+  search: Joi.string().max(200),
+  sort: QueryJoi.list()
+    .items(Joi.string().pattern(/^-?(createdAt|updatedAt|dueDate|completedAt|priority|status|title|progress)$/))
+    .messages({
+      'string.pattern.base': 'Sort fields must be one of: createdAt, updatedAt, dueDate, completedAt, priority, status, title, progress (prefix with - for descending)',
+    }),
+  sortBy: Joi.string()
+    .valid('createdAt', 'updatedAt', 'dueDate', 'completedAt', 'priority', 'status', 'title', 'progress')
+    .messages({
+      'any.only': 'sortBy must be one of: createdAt, updatedAt, dueDate, completedAt, priority, status, title, progress',
+    }),
+  sortOrder: Joi.string().valid('asc', 'desc'),
+  page: Joi.number().integer().min(1),
+  limit: Joi.number().integer().min(1).max(100),
+  after: Joi.string().max(1000),
+  fields: Joi.string().max(500),
+  count: Joi.boolean(),
+})
+  .oxor('sort', 'sortBy')
+  .messages({
+    'object.oxor': 'Use either sort or sortBy, not both',
+  });
+
+// Saved views store task list filters and sort, but not pagination
+const viewQuerySchema = taskQuerySchema
+  .fork(['page', 'limit', 'after', 'fields', 'count'], schema => schema.forbidden())
+  .messages({
+    'any.unknown': 'Saved views cannot store pagination parameters',
+  });
+
+export const viewSchema = Joi.object({
+  name: Joi.string()
+    .max(100)
+    .required()
+    .messages({
+      'string.max': 'View name cannot exceed 100 characters',
+    }),
+  description: Joi.string()
+    .max(500)
+    .allow('')
+    .messages({
+      'string.max': 'Description cannot exceed 500 characters',
+    }),
+  query: viewQuerySchema.required(),
+  visibility: Joi.string()
+    .valid('private', 'project', 'team')
+    .messages({
+      'any.only': 'Visibility must be one of: private, project, team',
+    }),
+  project: Joi.string()
+    .pattern(/^[0-9a-fA-F]{24}$/)
+    .when('visibility', { is: 'project', then: Joi.required() })
+    .messages({
+      'string.pattern.base': 'Invalid project ID format',
+      'any.required': 'A project is required to share a view with a project',
+    }),
+  team: Joi.string()
+    .pattern(/^[0-9a-fA-F]{24}$/)
+    .when('visibility', { is: 'team', then: Joi.required() })
+    .messages({
+      'string.pattern.base': 'Invalid team ID format',
+      'any.required': 'A team is required to share a view with a team',
+    }),
+});
+
+export const updateViewSchema = Joi.object({
+  name: Joi.string()
+    .max(100)
+    .messages({
+      'string.max': 'View name cannot exceed 100 characters',
+    }),
+  description: Joi.string()
+    .max(500)
+    .allow('')
+    .messages({
+      'string.max': 'Description cannot exceed 500 characters',
+    }),
+  query: viewQuerySchema,
+  visibility: Joi.string()
+    .valid('private', 'project', 'team')
+    .messages({
+      'any.only': 'Visibility must be one of: private, project, team',
+    }),
+  project: Joi.string()
+    .pattern(/^[0-9a-fA-F]{24}$/)
+    .allow(null)
+    .messages({
+      'string.pattern.base': 'Invalid project ID format',
+    }),
+  team: Joi.string()
+    .pattern(/^[0-9a-fA-F]{24}$/)
+    .allow(null)
+    .messages({
+      'string.pattern.base': 'Invalid team ID format',
+    }),
+});
+
+export const bulkTaskSchema = Joi.object({
+  action: Joi.string()
+    .valid('update-status', 'reassign', 'add-tags', 'remove-tags', 'set-priority', 'delete')
+    .required()
+    .messages({
+      'any.only': 'Action must be one of: update-status, reassign, add-tags, remove-tags, set-priority, delete',
+    }),
+  ids: Joi.array()
+    .items(Joi.string().pattern(/^[0-9a-fA-F]{24}$/))
+    .min(1)
+    .max(500)
+    .messages({
+      'string.pattern.base': 'Invalid task ID format',
+      'array.max': 'Bulk operations are limited to 500 tasks',
+    }),
+  filter: viewQuerySchema,
+  status: Joi.string()
+    .valid('pending', 'in_progress', 'completed', 'cancelled')
+    .when('action', { is: 'update-status', then: Joi.required(), otherwise: Joi.forbidden() })
+    .messages({
+      'any.only': 'Status must be one of: pending, in_progress, completed, cancelled',
+    }),
+  assignedTo: Joi.string()
+    .pattern(/^[0-9a-fA-F]{24}$/)
+    .when('action', { is: 'reassign', then: Joi.required(), otherwise: Joi.forbidden() })
+    .messages({
+      'string.pattern.base': 'Invalid user ID format',
+    }),
+  tags: Joi.array()
+    .items(Joi.string().max(30))
+    .min(1)
+    .when('action', { is: Joi.valid('add-tags', 'remove-tags'), then: Joi.required(), otherwise: Joi.forbidden() })
+    .messages({
+      'string.max': 'Each tag cannot exceed 30 characters',
+    }),
+  priority: Joi.string()
+    .valid('low', 'medium', 'high', 'urgent')
+    .when('action', { is: 'set-priority', then: Joi.required(), otherwise: Joi.forbidden() })
+    .messages({
+      'any.only': 'Priority must be one of: low, medium, high, urgent',
+    }),
+  atomic: Joi.boolean(),
+})
+  .xor('ids', 'filter')
+  .messages({
+    'object.xor': 'Provide either ids or filter, not both',
+    'object.missing': 'Provide either ids or filter',
+  });
+
+// The board takes the task list filters; status picks the columns and limit applies per column
+export const boardQuerySchema = taskQuerySchema
+  .fork(['page', 'after', 'fields', 'count', 'sort', 'sortBy', 'sortOrder'], schema => schema.forbidden())
+  .keys({
+    limit: Joi.number().integer().min(1).max(100).default(50),
+  })
+  .messages({
+    'any.unknown': 'The board is ordered by rank and is not paginated',
+  });
+
+export const moveTaskSchema = Joi.object({
+  status: Joi.string()
+    .valid('pending', 'in_progress', 'completed', 'cancelled')
+    .messages({
+      'any.only': 'Status must be one of: pending, in_progress, completed, cancelled',
+    }),
+  after: Joi.string()
+    .pattern(/^[0-9a-fA-F]{24}$/)
+    .messages({
+      'string.pattern.base': 'Invalid task ID format',
+    }),
+  before: Joi.string()
+    .pattern(/^[0-9a-fA-F]{24}$/)
+    .messages({
+      'string.pattern.base': 'Invalid task ID format',
+    }),
+})
+  .oxor('after', 'before')
+  .messages({
+    'object.oxor': 'Use either after or before, not both',
+  });
+
+// Exports take the task list filters and sort, but return every matching task
+export const exportQuerySchema = taskQuerySchema
+  .fork(['page', 'limit', 'after', 'fields', 'count'], schema => schema.forbidden())
+  .keys({
+    format: Joi.string()
+      .valid('csv', 'json', 'ndjson')
+      .default('json')
+      .messages({
+        'any.only': 'Format must be one of: csv, json, ndjson',
+      }),
+  })
+  .messages({
+    'any.unknown': 'Exports are not paginated',
+  });
+
+// Page number and size for listings paginated by offset
+const pageQueryKeys = {
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(100).default(20),
+};
+
+export const pageQuerySchema = Joi.object(pageQueryKeys);
+
+export const projectQuerySchema = Joi.object({
+  ...pageQueryKeys,
+  limit: pageQueryKeys.limit.default(10),
+  includeArchived: Joi.boolean().default(false),
+});
+
+export const notificationQuerySchema = Joi.object({
+  ...pageQueryKeys,
+  unread: Joi.boolean().default(false),
+});
+
+export const webhookDeliveryQuerySchema = Joi.object({
+  ...pageQueryKeys,
+  status: Joi.string()
+    .valid('pending', 'succeeded', 'failed')
+    .messages({
+      'any.only': 'Status must be one of: pending, succeeded, failed',
+    }),
+});
+
+export const importQuerySchema = Joi.object({
+  format: Joi.string()
+    .valid('csv', 'json', 'ndjson')
+    .messages({
+      'any.only': 'Format must be one of: csv, json, ndjson',
+    }),
+  dryRun: Joi.boolean().default(false),
+});
+
+export const timeReportQuerySchema = Joi.object({
+  from: Joi.date().iso(),
+  to: Joi.date()
+    .iso()
+    .when('from', { is: Joi.exist(), then: Joi.date().min(Joi.ref('from')) })
+    .messages({
+      'date.min': 'to must not be earlier than from',
+    }),
+  user: QueryJoi.list()
+    .items(objectIdOrMe)
+    .messages({
+      'alternatives.match': 'user must be user IDs or "me"',
+    }),
+  task: QueryJoi.list()
+    .items(Joi.string().pattern(/^[0-9a-fA-F]{24}$/))
+    .messages({
+      'string.pattern.base': 'Invalid task ID format',
+    }),
+  project: QueryJoi.list()
+    .items(Joi.string().pattern(/^[0-9a-fA-F]{24}$/))
+    .messages({
+      'string.pattern.base': 'Invalid project ID format',
+    }),
+  groupBy: Joi.string()
+    .valid('task', 'user', 'day')
+    .default('task')
+    .messages({
+      'any.only': 'groupBy must be one of: task, user, day',
+    }),
+});
+
+export const calendarFeedQuerySchema = Joi.object({
+  project: QueryJoi.list()
+    .items(Joi.string().pattern(/^[0-9a-fA-F]{24}$/))
+    .messages({
+      'string.pattern.base': 'Invalid project ID format',
+    }),
+  tag: QueryJoi.list().items(Joi.string().max(30)),
+  status: QueryJoi.list()
+    .items(Joi.string().valid('pending', 'in_progress', 'completed', 'cancelled'))
+    .messages({
+      'any.only': 'Status must be one of: pending, in_progress, completed, cancelled',
+    }),
+  type: Joi.string()
+    .valid('todo', 'event')
+    .default('todo')
+    .messages({
+      'any.only': 'Type must be one of: todo, event',
+    }),
 });
\ No newline at end of file
@@ -0,0 +1,56 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IAttachment extends Document {
+  _id: mongoose.Types.ObjectId;
+  task: mongoose.Types.ObjectId;
+  uploadedBy: mongoose.Types.ObjectId;
+  originalName: string;
+  mimeType: string;
+  size: number;
+  storageKey: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const attachmentSchema = new Schema<IAttachment>(
+  {
+    task: {
+      type: Schema.Types.ObjectId,
+      ref: 'Task',
+      required: [true, 'Attachment must belong to a task'],
+    },
+    uploadedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Uploader is required'],
+    },
+    originalName: {
+      type: String,
+      required: [true, 'File name is required'],
+      trim: true,
+      maxlength: [255, 'File name cannot exceed 255 characters'],
+    },
+    mimeType: {
+      type: String,
+      required: [true, 'MIME type is required'],
+    },
+    size: {
+      type: Number,
+      required: [true, 'File size is required'],
+      min: 0,
+    },
+    storageKey: {
+      type: String,
+      required: [true, 'Storage key is required'],
+      select: false,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes for better query performance
+attachmentSchema.index({ task: 1, createdAt: -1 });
+
+export const Attachment = mongoose.model<IAttachment>('Attachment', attachmentSchema);
@@ -0,0 +1,56 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IComment extends Document {
+  _id: mongoose.Types.ObjectId;
+  task: mongoose.Types.ObjectId;
+  author: mongoose.Types.ObjectId;
+  body: string;
+  parent?: mongoose.Types.ObjectId;
+  mentions: mongoose.Types.ObjectId[];
+  editedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const commentSchema = new Schema<IComment>(
+  {
+    task: {
+      type: Schema.Types.ObjectId,
+      ref: 'Task',
+      required: [true, 'Comment must belong to a task'],
+    },
+    author: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Comment author is required'],
+    },
+    body: {
+      type: String,
+      required: [true, 'Comment body is required'],
+      trim: true,
+      maxlength: [2000, 'Comment cannot exceed 2000 characters'],
+    },
+    parent: {
+      type: Schema.Types.ObjectId,
+      ref: 'Comment',
+      default: null,
+    },
+    mentions: [{
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    }],
+    editedAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes for better query performance
+commentSchema.index({ task: 1, parent: 1, createdAt: 1 });
+commentSchema.index({ mentions: 1 });
+
+export const Comment = mongoose.model<IComment>('Comment', commentSchema);
@@ -0,0 +1,99 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export enum JobRunStatus {
+  SUCCEEDED = 'succeeded',
+  FAILED = 'failed',
+}
+
+export interface IJob extends Document {
+  _id: mongoose.Types.ObjectId;
+  name: string;
+  intervalMs: number;
+  nextRunAt: Date;
+  isPaused: boolean;
+  lockedBy?: string;
+  lockedUntil?: Date;
+  lastStartedAt?: Date;
+  lastFinishedAt?: Date;
+  lastDurationMs?: number;
+  lastStatus?: JobRunStatus;
+  lastError?: string;
+  lastResult?: unknown;
+  runCount: number;
+  failureCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const jobSchema = new Schema<IJob>(
+  {
+    name: {
+      type: String,
+      required: [true, 'Job name is required'],
+      unique: true,
+      trim: true,
+    },
+    intervalMs: {
+      type: Number,
+      required: [true, 'Job interval is required'],
+      min: [1000, 'Job interval must be at least one second'],
+    },
+    nextRunAt: {
+      type: Date,
+      default: Date.now,
+    },
+    isPaused: {
+      type: Boolean,
+      default: false,
+    },
+    lockedBy: {
+      type: String,
+      default: null,
+    },
+    lockedUntil: {
+      type: Date,
+      default: null,
+    },
+    lastStartedAt: {
+      type: Date,
+      default: null,
+    },
+    lastFinishedAt: {
+      type: Date,
+      default: null,
+    },
+    lastDurationMs: {
+      type: Number,
+      default: null,
+    },
+    lastStatus: {
+      type: String,
+      enum: Object.values(JobRunStatus),
+      default: null,
+    },
+    lastError: {
+      type: String,
+      default: null,
+    },
+    lastResult: {
+      type: Schema.Types.Mixed,
+      default: null,
+    },
+    runCount: {
+      type: Number,
+      default: 0,
+    },
+    failureCount: {
+      type: Number,
+      default: 0,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes for better query performance
+jobSchema.index({ nextRunAt: 1, lockedUntil: 1 });
+
+export const Job = mongoose.model<IJob>('Job', jobSchema);
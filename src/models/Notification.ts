@@ -0,0 +1,63 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export enum NotificationType {
+  TASK_ASSIGNED = 'task_assigned',
+  TASK_REASSIGNED = 'task_reassigned',
+  TASK_STATUS_CHANGED = 'task_status_changed',
+  TASK_DUE_SOON = 'task_due_soon',
+  TASK_OVERDUE = 'task_overdue',
+}
+
+export interface INotification extends Document {
+  _id: mongoose.Types.ObjectId;
+  recipient: mongoose.Types.ObjectId;
+  type: NotificationType;
+  task?: mongoose.Types.ObjectId;
+  actor?: mongoose.Types.ObjectId;
+  message: string;
+  readAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const notificationSchema = new Schema<INotification>(
+  {
+    recipient: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Notification recipient is required'],
+    },
+    type: {
+      type: String,
+      enum: Object.values(NotificationType),
+      required: [true, 'Notification type is required'],
+    },
+    task: {
+      type: Schema.Types.ObjectId,
+      ref: 'Task',
+      default: null,
+    },
+    actor: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      default: null,
+    },
+    message: {
+      type: String,
+      required: [true, 'Notification message is required'],
+      maxlength: [500, 'Message cannot exceed 500 characters'],
+    },
+    readAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes for better query performance
+notificationSchema.index({ recipient: 1, readAt: 1, createdAt: -1 });
+
+export const Notification = mongoose.model<INotification>('Notification', notificationSchema);
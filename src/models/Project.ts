@@ -0,0 +1,125 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { TaskStatus } from './Task';
+
+export enum ProjectRole {
+  OWNER = 'owner',
+  MANAGER = 'manager',
+  MEMBER = 'member',
+  VIEWER = 'viewer',
+}
+
+export interface IProjectMember {
+  user: mongoose.Types.ObjectId;
+  role: ProjectRole;
+  addedAt: Date;
+}
+
+// Maximum number of tasks per board column; unset columns are unlimited
+export type WipLimits = Partial<Record<TaskStatus, number | null>>;
+
+export interface IProject extends Document {
+  _id: mongoose.Types.ObjectId;
+  name: string;
+  description?: string;
+  owner: mongoose.Types.ObjectId;
+  members: IProjectMember[];
+  isArchived: boolean;
+  wipLimits: WipLimits;
+  wipLeases?: Record<string, { token: mongoose.Types.ObjectId; expiresAt: Date }>;
+  createdAt: Date;
+  updatedAt: Date;
+  getMemberRole(userId: mongoose.Types.ObjectId | string): ProjectRole | null;
+  hasRole(userId: mongoose.Types.ObjectId | string, ...roles: ProjectRole[]): boolean;
+}
+
+const projectMemberSchema = new Schema<IProjectMember>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Member user is required'],
+    },
+    role: {
+      type: String,
+      enum: Object.values(ProjectRole),
+      default: ProjectRole.MEMBER,
+    },
+    addedAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  { _id: false }
+);
+
+const wipLimitField = {
+  type: Number,
+  min: [1, 'WIP limits must be at least 1'],
+  default: null,
+};
+
+const projectSchema = new Schema<IProject>(
+  {
+    name: {
+      type: String,
+      required: [true, 'Project name is required'],
+      trim: true,
+      maxlength: [100, 'Project name cannot exceed 100 characters'],
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: [1000, 'Description cannot exceed 1000 characters'],
+    },
+    owner: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Project owner is required'],
+    },
+    members: [projectMemberSchema],
+    isArchived: {
+      type: Boolean,
+      default: false,
+    },
+    wipLimits: {
+      [TaskStatus.PENDING]: wipLimitField,
+      [TaskStatus.IN_PROGRESS]: wipLimitField,
+      [TaskStatus.COMPLETED]: wipLimitField,
+      [TaskStatus.CANCELLED]: wipLimitField,
+    },
+    // Short-lived leases that serialise moves into WIP-limited columns, written by the board service
+    wipLeases: {
+      type: Schema.Types.Mixed,
+      select: false,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes for better query performance
+projectSchema.index({ 'members.user': 1 });
+projectSchema.index({ owner: 1 });
+
+// Get the role a user holds in the project, or null if they are not a member
+projectSchema.methods.getMemberRole = function (
+  userId: mongoose.Types.ObjectId | string
+): ProjectRole | null {
+  // Compare via _id so this also works when members have been populated
+  const member = this.members.find(
+    (m: IProjectMember) => m.user._id.toString() === userId.toString()
+  );
+  return member ? member.role : null;
+};
+
+// Check whether a user holds one of the given roles in the project
+projectSchema.methods.hasRole = function (
+  userId: mongoose.Types.ObjectId | string,
+  ...roles: ProjectRole[]
+): boolean {
+  const role = this.getMemberRole(userId);
+  return role !== null && roles.includes(role);
+};
+
+export const Project = mongoose.model<IProject>('Project', projectSchema);
@@ -0,0 +1,64 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IRefreshToken extends Document {
+  _id: mongoose.Types.ObjectId;
+  user: mongoose.Types.ObjectId;
+  tokenHash: string;
+  expiresAt: Date;
+  revokedAt?: Date;
+  replacedByHash?: string;
+  createdByIp?: string;
+  userAgent?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  isActive(): boolean;
+}
+
+const refreshTokenSchema = new Schema<IRefreshToken>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Refresh token must belong to a user'],
+    },
+    tokenHash: {
+      type: String,
+      required: [true, 'Token hash is required'],
+      unique: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: [true, 'Expiry date is required'],
+    },
+    revokedAt: {
+      type: Date,
+      default: null,
+    },
+    replacedByHash: {
+      type: String,
+      default: null,
+    },
+    createdByIp: {
+      type: String,
+    },
+    userAgent: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes for better query performance
+refreshTokenSchema.index({ user: 1, revokedAt: 1 });
+
+// Let MongoDB remove expired tokens automatically
+refreshTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// A token can be exchanged only while it is neither revoked nor expired
+refreshTokenSchema.methods.isActive = function (): boolean {
+  return !this.revokedAt && this.expiresAt > new Date();
+};
+
+export const RefreshToken = mongoose.model<IRefreshToken>('RefreshToken', refreshTokenSchema);
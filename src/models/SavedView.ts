@@ -0,0 +1,72 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export enum ViewVisibility {
+  PRIVATE = 'private',
+  PROJECT = 'project',
+  TEAM = 'team',
+}
+
+export interface ISavedView extends Document {
+  _id: mongoose.Types.ObjectId;
+  owner: mongoose.Types.ObjectId;
+  name: string;
+  description?: string;
+  query: Record<string, unknown>;
+  visibility: ViewVisibility;
+  project?: mongoose.Types.ObjectId;
+  team?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const savedViewSchema = new Schema<ISavedView>(
+  {
+    owner: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'View owner is required'],
+    },
+    name: {
+      type: String,
+      required: [true, 'View name is required'],
+      trim: true,
+      maxlength: [100, 'View name cannot exceed 100 characters'],
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Description cannot exceed 500 characters'],
+    },
+    // Task list query parameters as sent to GET /api/tasks, re-validated whenever the view is run
+    query: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+    visibility: {
+      type: String,
+      enum: Object.values(ViewVisibility),
+      default: ViewVisibility.PRIVATE,
+    },
+    project: {
+      type: Schema.Types.ObjectId,
+      ref: 'Project',
+      default: null,
+    },
+    team: {
+      type: Schema.Types.ObjectId,
+      ref: 'Team',
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+    minimize: false,
+  }
+);
+
+// Indexes for better query performance
+savedViewSchema.index({ owner: 1, name: 1 }, { unique: true });
+savedViewSchema.index({ project: 1, visibility: 1 });
+savedViewSchema.index({ team: 1, visibility: 1 });
+
+export const SavedView = mongoose.model<ISavedView>('SavedView', savedViewSchema);
@@ -0,0 +1,61 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface ISprint extends Document {
+  _id: mongoose.Types.ObjectId;
+  name: string;
+  goal?: string;
+  project: mongoose.Types.ObjectId;
+  startDate: Date;
+  endDate: Date;
+  createdBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const sprintSchema = new Schema<ISprint>(
+  {
+    name: {
+      type: String,
+      required: [true, 'Sprint name is required'],
+      trim: true,
+      maxlength: [100, 'Sprint name cannot exceed 100 characters'],
+    },
+    goal: {
+      type: String,
+      trim: true,
+      maxlength: [1000, 'Goal cannot exceed 1000 characters'],
+    },
+    project: {
+      type: Schema.Types.ObjectId,
+      ref: 'Project',
+      required: [true, 'Sprint must belong to a project'],
+    },
+    startDate: {
+      type: Date,
+      required: [true, 'Start date is required'],
+    },
+    endDate: {
+      type: Date,
+      required: [true, 'End date is required'],
+      validate: {
+        validator: function(this: ISprint, value: Date) {
+          return !this.startDate || value >= this.startDate;
+        },
+        message: 'End date must not be before the start date',
+      },
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Created by user is required'],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes for better query performance
+sprintSchema.index({ project: 1, startDate: -1 });
+
+export const Sprint = mongoose.model<ISprint>('Sprint', sprintSchema);
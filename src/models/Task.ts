@@ -1,4 +1,5 @@
-import mongoose, { Document, Schema } from 'mongoose';
+import mongoose, { ClientSession, Document, Schema } from 'mongoose';
+import { rankAfter } from '../utils/rank';
 
 export enum TaskStatus {
   PENDING = 'pending',
@@ -14,22 +15,101 @@ export enum TaskPriority {
   URGENT = 'urgent',
 }
 
+// Workflow and urgency order; stored with each task so status and priority sort in this order, not alphabetically
+export const STATUS_ORDER = [TaskStatus.PENDING, TaskStatus.IN_PROGRESS, TaskStatus.COMPLETED, TaskStatus.CANCELLED];
+export const PRIORITY_ORDER = [TaskPriority.LOW, TaskPriority.MEDIUM, TaskPriority.HIGH, TaskPriority.URGENT];
+
+export enum RecurrenceFrequency {
+  DAILY = 'daily',
+  WEEKLY = 'weekly',
+  MONTHLY = 'monthly',
+  YEARLY = 'yearly',
+}
+
+export interface IRecurrence {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  byWeekday?: number[];
+  byMonthDay?: number;
+  until?: Date;
+  count?: number;
+  occurrence: number;
+}
+
 export interface ITask extends Document {
   _id: mongoose.Types.ObjectId;
   title: string;
   description?: string;
   status: TaskStatus;
   priority: TaskPriority;
+  // Positions of status and priority in STATUS_ORDER and PRIORITY_ORDER, used for sorting
+  statusOrder: number;
+  priorityOrder: number;
   dueDate?: Date;
   completedAt?: Date;
   tags: string[];
-  assignedTo: mongoose.Types.ObjectId;
+  // Expected effort in minutes
+  estimate?: number;
+  assignedTo: mongoose.Types.ObjectId | null;
+  assignees: mongoose.Types.ObjectId[];
+  watchers: mongoose.Types.ObjectId[];
+  team?: mongoose.Types.ObjectId;
   createdBy: mongoose.Types.ObjectId;
+  project?: mongoose.Types.ObjectId;
+  sprint?: mongoose.Types.ObjectId | null;
+  parent?: mongoose.Types.ObjectId;
+  blockedBy: mongoose.Types.ObjectId[];
+  progress: number;
+  // Position within its status column on the board
+  rank?: string;
+  recurrence?: IRecurrence;
+  recurrenceOf?: mongoose.Types.ObjectId;
+  nextOccurrence?: mongoose.Types.ObjectId;
+  dueSoonNotifiedAt?: Date;
+  overdueNotifiedAt?: Date;
+  overdueAt?: Date;
   createdAt: Date;
   updatedAt: Date;
   isOverdue(): boolean;
 }
 
+const recurrenceSchema = new Schema<IRecurrence>(
+  {
+    frequency: {
+      type: String,
+      enum: Object.values(RecurrenceFrequency),
+      required: [true, 'Recurrence frequency is required'],
+    },
+    interval: {
+      type: Number,
+      min: [1, 'Recurrence interval must be at least 1'],
+      default: 1,
+    },
+    byWeekday: [{
+      type: Number,
+      min: 0,
+      max: 6,
+    }],
+    byMonthDay: {
+      type: Number,
+      min: 1,
+      max: 31,
+    },
+    until: {
+      type: Date,
+    },
+    count: {
+      type: Number,
+      min: [1, 'Recurrence count must be at least 1'],
+    },
+    occurrence: {
+      type: Number,
+      default: 1,
+    },
+  },
+  { _id: false }
+);
+
 const taskSchema = new Schema<ITask>(
   {
     title: {
@@ -57,6 +137,10 @@ const taskSchema = new Schema<ITask>(
       type: Date,
       validate: {
         validator: function(this: ITask, value: Date) {
+          // Only a newly set due date must be in the future, so overdue tasks can still be saved
+          if (this instanceof mongoose.Document && !this.isModified('dueDate')) {
+            return true;
+          }
           return !value || value > new Date();
         },
         message: 'Due date must be in the future',
@@ -71,16 +155,106 @@ const taskSchema = new Schema<ITask>(
       trim: true,
       maxlength: [30, 'Tag cannot exceed 30 characters'],
     }],
+    estimate: {
+      type: Number,
+      min: [0, 'Estimate cannot be negative'],
+      default: null,
+    },
+    // Team tasks may sit unassigned in the team's queue until someone claims them
     assignedTo: {
       type: Schema.Types.ObjectId,
       ref: 'User',
-      required: [true, 'Task must be assigned to a user'],
+      default: null,
+      required: [
+        function(this: ITask) {
+          return !this.team;
+        },
+        'Task must be assigned to a user or a team',
+      ],
+    },
+    // Co-assignees share the work with assignedTo, who remains the primary assignee
+    assignees: [{
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    }],
+    // Watchers follow a task's progress without being responsible for it
+    watchers: [{
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    }],
+    team: {
+      type: Schema.Types.ObjectId,
+      ref: 'Team',
+      default: null,
     },
     createdBy: {
       type: Schema.Types.ObjectId,
       ref: 'User',
       required: [true, 'Created by user is required'],
     },
+    project: {
+      type: Schema.Types.ObjectId,
+      ref: 'Project',
+      default: null,
+    },
+    // Sprints belong to a project, so only tasks of that project can join them
+    sprint: {
+      type: Schema.Types.ObjectId,
+      ref: 'Sprint',
+      default: null,
+    },
+    parent: {
+      type: Schema.Types.ObjectId,
+      ref: 'Task',
+      default: null,
+    },
+    blockedBy: [{
+      type: Schema.Types.ObjectId,
+      ref: 'Task',
+    }],
+    progress: {
+      type: Number,
+      min: 0,
+      max: 100,
+      default: 0,
+    },
+    statusOrder: {
+      type: Number,
+    },
+    priorityOrder: {
+      type: Number,
+    },
+    rank: {
+      type: String,
+      default: null,
+    },
+    recurrence: {
+      type: recurrenceSchema,
+      default: null,
+    },
+    recurrenceOf: {
+      type: Schema.Types.ObjectId,
+      ref: 'Task',
+      default: null,
+    },
+    nextOccurrence: {
+      type: Schema.Types.ObjectId,
+      ref: 'Task',
+      default: null,
+    },
+    dueSoonNotifiedAt: {
+      type: Date,
+      default: null,
+    },
+    overdueNotifiedAt: {
+      type: Date,
+      default: null,
+    },
+    // Set by the overdue job when an open task passes its due date
+    overdueAt: {
+      type: Date,
+      default: null,
+    },
   },
   {
     timestamps: true,
@@ -92,6 +266,17 @@ taskSchema.index({ assignedTo: 1, status: 1 });
 taskSchema.index({ createdBy: 1 });
 taskSchema.index({ dueDate: 1 });
 taskSchema.index({ status: 1, priority: 1 });
+taskSchema.index({ project: 1, status: 1 });
+taskSchema.index({ sprint: 1, status: 1 });
+taskSchema.index({ parent: 1 });
+taskSchema.index({ blockedBy: 1 });
+taskSchema.index({ recurrenceOf: 1 });
+taskSchema.index({ 'recurrence.frequency': 1, nextOccurrence: 1, dueDate: 1 });
+taskSchema.index({ overdueAt: 1 });
+taskSchema.index({ team: 1, assignedTo: 1 });
+taskSchema.index({ assignees: 1, status: 1 });
+taskSchema.index({ watchers: 1 });
+taskSchema.index({ status: 1, rank: 1 });
 
 // Virtual for checking if task is overdue
 taskSchema.methods.isOverdue = function(): boolean {
@@ -101,6 +286,31 @@ taskSchema.methods.isOverdue = function(): boolean {
   return new Date() > this.dueDate;
 };
 
+// Rank that puts a task at the bottom of a status column, read inside the caller's transaction if any
+const endOfColumnRank = async (status: TaskStatus, session?: ClientSession | null): Promise<string> => {
+  const last = await Task.findOne({ status, rank: { $ne: null } })
+    .sort({ rank: -1 })
+    .select('rank')
+    .session(session || null);
+  return rankAfter(last?.rank || null);
+};
+
+// New tasks, and tasks changing status without an explicit position, go to the bottom of their column
+taskSchema.pre('save', async function() {
+  if ((this.isNew || this.isModified('status')) && !this.isModified('rank')) {
+    this.rank = await endOfColumnRank(this.status, this.$session());
+  }
+});
+
+taskSchema.pre('save', function() {
+  if (this.isNew || this.isModified('status')) {
+    this.statusOrder = STATUS_ORDER.indexOf(this.status);
+  }
+  if (this.isNew || this.isModified('priority')) {
+    this.priorityOrder = PRIORITY_ORDER.indexOf(this.priority);
+  }
+});
+
 // Middleware to set completedAt when status changes to completed
 taskSchema.pre('save', function(next) {
   if (this.isModified('status')) {
@@ -110,9 +320,71 @@ taskSchema.pre('save', function(next) {
       this.completedAt = undefined;
     }
   }
+
+  // A new due date deserves new reminders
+  if (!this.isNew && this.isModified('dueDate')) {
+    this.dueSoonNotifiedAt = undefined;
+    this.overdueNotifiedAt = undefined;
+    this.overdueAt = undefined;
+  }
   next();
 });
 
+// Whether a query-based update moves its task to another status. A filter that pins the status
+// answers it directly; otherwise a single-task update checks the stored task.
+const isStatusChange = async (query: mongoose.Query<unknown, ITask>, status: TaskStatus): Promise<boolean> => {
+  const filter = query.getFilter();
+  if (typeof filter.status === 'string') {
+    return filter.status !== status;
+  }
+  if ('op' in query && query.op === 'updateMany') {
+    return true;
+  }
+
+  const current = await query.model
+    .findOne(filter)
+    .select('status')
+    .session(query.getOptions().session || null);
+  return !current || current.status !== status;
+};
+
+// Keep completedAt, rank, sort orders and reminder flags in step on query-based updates (findByIdAndUpdate, updateMany)
+taskSchema.pre(['findOneAndUpdate', 'updateOne', 'updateMany'], async function() {
+  const update = this.getUpdate() as any;
+  if (!update || Array.isArray(update)) {
+    return;
+  }
+
+  const status = update.$set?.status ?? update.status;
+
+  // Re-sending the current status keeps the completion time and the position in the column
+  const changesStatus = status !== undefined && await isStatusChange(this, status);
+
+  if (changesStatus && update.completedAt === undefined && update.$set?.completedAt === undefined) {
+    this.set('completedAt', status === TaskStatus.COMPLETED ? new Date() : null);
+  }
+
+  if (changesStatus && (update.$set?.rank ?? update.rank) === undefined) {
+    this.set('rank', await endOfColumnRank(status, this.getOptions().session));
+  }
+
+  if (status !== undefined) {
+    this.set('statusOrder', STATUS_ORDER.indexOf(status));
+  }
+
+  const priority = update.$set?.priority ?? update.priority;
+  if (priority !== undefined) {
+    this.set('priorityOrder', PRIORITY_ORDER.indexOf(priority));
+  }
+
+  // A new due date deserves new reminders
+  if ((update.$set?.dueDate ?? update.dueDate) !== undefined) {
+    this.set('dueSoonNotifiedAt', null);
+    this.set('overdueNotifiedAt', null);
+    this.set('overdueAt', null);
+  }
+});
+
 // Compound text index for search functionality
 taskSchema.index({
   title: 'text',
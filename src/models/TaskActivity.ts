@@ -0,0 +1,74 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export enum TaskActivityAction {
+  CREATED = 'created',
+  UPDATED = 'updated',
+  DELETED = 'deleted',
+}
+
+export interface ITaskFieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+export interface ITaskActivity extends Document {
+  _id: mongoose.Types.ObjectId;
+  task: mongoose.Types.ObjectId;
+  actor: mongoose.Types.ObjectId;
+  action: TaskActivityAction;
+  changes: ITaskFieldChange[];
+  createdAt: Date;
+}
+
+const taskFieldChangeSchema = new Schema<ITaskFieldChange>(
+  {
+    field: {
+      type: String,
+      required: true,
+    },
+    from: {
+      type: Schema.Types.Mixed,
+      default: null,
+    },
+    to: {
+      type: Schema.Types.Mixed,
+      default: null,
+    },
+  },
+  { _id: false }
+);
+
+const taskActivitySchema = new Schema<ITaskActivity>(
+  {
+    task: {
+      type: Schema.Types.ObjectId,
+      ref: 'Task',
+      required: [true, 'Activity must belong to a task'],
+    },
+    actor: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Activity actor is required'],
+    },
+    action: {
+      type: String,
+      enum: Object.values(TaskActivityAction),
+      required: [true, 'Activity action is required'],
+    },
+    changes: [taskFieldChangeSchema],
+  },
+  {
+    // Activity entries are immutable, so only a creation timestamp is kept
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+// Indexes for better query performance
+taskActivitySchema.index({ task: 1, createdAt: -1 });
+taskActivitySchema.index({ actor: 1, createdAt: -1 });
+// Changes of a reference field to or from a given value, e.g. tasks joining and leaving a sprint
+taskActivitySchema.index({ 'changes.field': 1, 'changes.to': 1 });
+taskActivitySchema.index({ 'changes.field': 1, 'changes.from': 1 });
+
+export const TaskActivity = mongoose.model<ITaskActivity>('TaskActivity', taskActivitySchema);
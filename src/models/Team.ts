@@ -0,0 +1,93 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export enum TeamRole {
+  LEAD = 'lead',
+  MEMBER = 'member',
+}
+
+export interface ITeamMember {
+  user: mongoose.Types.ObjectId;
+  role: TeamRole;
+  addedAt: Date;
+}
+
+export interface ITeam extends Document {
+  _id: mongoose.Types.ObjectId;
+  name: string;
+  description?: string;
+  members: ITeamMember[];
+  createdBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+  getMemberRole(userId: mongoose.Types.ObjectId | string): TeamRole | null;
+  hasRole(userId: mongoose.Types.ObjectId | string, ...roles: TeamRole[]): boolean;
+}
+
+const teamMemberSchema = new Schema<ITeamMember>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Member user is required'],
+    },
+    role: {
+      type: String,
+      enum: Object.values(TeamRole),
+      default: TeamRole.MEMBER,
+    },
+    addedAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  { _id: false }
+);
+
+const teamSchema = new Schema<ITeam>(
+  {
+    name: {
+      type: String,
+      required: [true, 'Team name is required'],
+      unique: true,
+      trim: true,
+      maxlength: [100, 'Team name cannot exceed 100 characters'],
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: [1000, 'Description cannot exceed 1000 characters'],
+    },
+    members: [teamMemberSchema],
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Created by user is required'],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes for better query performance
+teamSchema.index({ 'members.user': 1 });
+
+teamSchema.methods.getMemberRole = function (
+  userId: mongoose.Types.ObjectId | string
+): TeamRole | null {
+  // Compare via _id so this also works when members have been populated
+  const member = this.members.find(
+    (m: ITeamMember) => m.user._id.toString() === userId.toString()
+  );
+  return member ? member.role : null;
+};
+
+teamSchema.methods.hasRole = function (
+  userId: mongoose.Types.ObjectId | string,
+  ...roles: TeamRole[]
+): boolean {
+  const role = this.getMemberRole(userId);
+  return role !== null && roles.includes(role);
+};
+
+export const Team = mongoose.model<ITeam>('Team', teamSchema);
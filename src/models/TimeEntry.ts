@@ -0,0 +1,74 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export enum TimeEntrySource {
+  TIMER = 'timer',
+  MANUAL = 'manual',
+}
+
+export interface ITimeEntry extends Document {
+  _id: mongoose.Types.ObjectId;
+  task: mongoose.Types.ObjectId;
+  user: mongoose.Types.ObjectId;
+  source: TimeEntrySource;
+  startedAt: Date;
+  isRunning: boolean;
+  // Both unset while a timer is running
+  endedAt?: Date;
+  minutes?: number;
+  note?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const timeEntrySchema = new Schema<ITimeEntry>(
+  {
+    task: {
+      type: Schema.Types.ObjectId,
+      ref: 'Task',
+      required: [true, 'Time entry must belong to a task'],
+    },
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Time entry user is required'],
+    },
+    source: {
+      type: String,
+      enum: Object.values(TimeEntrySource),
+      required: true,
+    },
+    startedAt: {
+      type: Date,
+      required: [true, 'Start time is required'],
+    },
+    isRunning: {
+      type: Boolean,
+      default: false,
+    },
+    endedAt: {
+      type: Date,
+      default: null,
+    },
+    minutes: {
+      type: Number,
+      min: [1, 'Logged time must be at least 1 minute'],
+      default: null,
+    },
+    note: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Note cannot exceed 500 characters'],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes for better query performance
+timeEntrySchema.index({ task: 1, startedAt: -1 });
+timeEntrySchema.index({ user: 1, startedAt: -1 });
+// At most one running timer per user
+timeEntrySchema.index({ user: 1 }, { unique: true, partialFilterExpression: { isRunning: true } });
+
+export const TimeEntry = mongoose.model<ITimeEntry>('TimeEntry', timeEntrySchema);
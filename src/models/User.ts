@@ -1,6 +1,20 @@
 import mongoose, { Document, Schema } from 'mongoose';
 import bcrypt from 'bcryptjs';
 
+export enum UserRole {
+  ADMIN = 'admin',
+  MANAGER = 'manager',
+  MEMBER = 'member',
+}
+
+export interface INotificationPreferences {
+  taskAssigned: boolean;
+  taskReassigned: boolean;
+  taskStatusChanged: boolean;
+  taskDueSoon: boolean;
+  taskOverdue: boolean;
+}
+
 export interface IUser extends Document {
   _id: mongoose.Types.ObjectId;
   username: string;
@@ -9,7 +23,16 @@ export interface IUser extends Document {
   firstName: string;
   lastName: string;
   avatar?: string;
+  role: UserRole;
   isActive: boolean;
+  isEmailVerified: boolean;
+  emailVerificationToken?: string;
+  emailVerificationExpires?: Date;
+  passwordResetToken?: string;
+  passwordResetExpires?: Date;
+  tokenVersion: number;
+  calendarFeedTokenHash?: string;
+  notificationPreferences: INotificationPreferences;
   lastLogin?: Date;
   createdAt: Date;
   updatedAt: Date;
@@ -58,10 +81,52 @@ const userSchema = new Schema<IUser>(
       type: String,
       default: null,
     },
+    role: {
+      type: String,
+      enum: Object.values(UserRole),
+      default: UserRole.MEMBER,
+    },
     isActive: {
       type: Boolean,
       default: true,
     },
+    // Accounts created before email verification existed have no value and count as verified;
+    // registration sets false explicitly
+    isEmailVerified: {
+      type: Boolean,
+      default: true,
+    },
+    emailVerificationToken: {
+      type: String,
+      select: false,
+    },
+    emailVerificationExpires: {
+      type: Date,
+      select: false,
+    },
+    passwordResetToken: {
+      type: String,
+      select: false,
+    },
+    passwordResetExpires: {
+      type: Date,
+      select: false,
+    },
+    tokenVersion: {
+      type: Number,
+      default: 0,
+    },
+    calendarFeedTokenHash: {
+      type: String,
+      select: false,
+    },
+    notificationPreferences: {
+      taskAssigned: { type: Boolean, default: true },
+      taskReassigned: { type: Boolean, default: true },
+      taskStatusChanged: { type: Boolean, default: true },
+      taskDueSoon: { type: Boolean, default: true },
+      taskOverdue: { type: Boolean, default: true },
+    },
     lastLogin: {
       type: Date,
       default: null,
@@ -75,6 +140,10 @@ const userSchema = new Schema<IUser>(
 // Index for better query performance
 userSchema.index({ email: 1 });
 userSchema.index({ username: 1 });
+userSchema.index({ role: 1 });
+userSchema.index({ emailVerificationToken: 1 }, { sparse: true });
+userSchema.index({ passwordResetToken: 1 }, { sparse: true });
+userSchema.index({ calendarFeedTokenHash: 1 }, { sparse: true });
 
 // Hash password before saving
 userSchema.pre('save', async function (next) {
@@ -103,6 +172,12 @@ userSchema.methods.getFullName = function (): string {
 userSchema.methods.toJSON = function () {
   const userObject = this.toObject();
   delete userObject.password;
+  delete userObject.tokenVersion;
+  delete userObject.emailVerificationToken;
+  delete userObject.emailVerificationExpires;
+  delete userObject.passwordResetToken;
+  delete userObject.passwordResetExpires;
+  delete userObject.calendarFeedTokenHash;
   return userObject;
 };
 
@@ -0,0 +1,66 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export const WEBHOOK_EVENTS = [
+  'task.created',
+  'task.updated',
+  'task.completed',
+  'task.deleted',
+  'user.deactivated',
+] as const;
+
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
+
+export interface IWebhook extends Document {
+  _id: mongoose.Types.ObjectId;
+  owner: mongoose.Types.ObjectId;
+  url: string;
+  description?: string;
+  secret: string;
+  events: WebhookEvent[];
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const webhookSchema = new Schema<IWebhook>(
+  {
+    owner: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Webhook owner is required'],
+    },
+    url: {
+      type: String,
+      required: [true, 'Webhook URL is required'],
+      trim: true,
+      maxlength: [2000, 'URL cannot exceed 2000 characters'],
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: [200, 'Description cannot exceed 200 characters'],
+    },
+    secret: {
+      type: String,
+      required: [true, 'Webhook secret is required'],
+      select: false,
+    },
+    events: [{
+      type: String,
+      enum: WEBHOOK_EVENTS,
+    }],
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes for better query performance
+webhookSchema.index({ owner: 1 });
+webhookSchema.index({ events: 1, isActive: 1 });
+
+export const Webhook = mongoose.model<IWebhook>('Webhook', webhookSchema);
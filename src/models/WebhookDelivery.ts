@@ -0,0 +1,74 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export enum DeliveryStatus {
+  PENDING = 'pending',
+  SUCCEEDED = 'succeeded',
+  FAILED = 'failed',
+}
+
+export interface IWebhookDelivery extends Document {
+  _id: mongoose.Types.ObjectId;
+  webhook: mongoose.Types.ObjectId;
+  event: string;
+  payload: Record<string, unknown>;
+  status: DeliveryStatus;
+  attempts: number;
+  nextAttemptAt?: Date;
+  lastResponseStatus?: number;
+  lastError?: string;
+  deliveredAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const webhookDeliverySchema = new Schema<IWebhookDelivery>(
+  {
+    webhook: {
+      type: Schema.Types.ObjectId,
+      ref: 'Webhook',
+      required: [true, 'Delivery must belong to a webhook'],
+    },
+    event: {
+      type: String,
+      required: [true, 'Event type is required'],
+    },
+    payload: {
+      type: Schema.Types.Mixed,
+      required: [true, 'Payload is required'],
+    },
+    status: {
+      type: String,
+      enum: Object.values(DeliveryStatus),
+      default: DeliveryStatus.PENDING,
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    nextAttemptAt: {
+      type: Date,
+      default: Date.now,
+    },
+    lastResponseStatus: {
+      type: Number,
+      default: null,
+    },
+    lastError: {
+      type: String,
+      default: null,
+    },
+    deliveredAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes for better query performance
+webhookDeliverySchema.index({ webhook: 1, createdAt: -1 });
+webhookDeliverySchema.index({ status: 1, nextAttemptAt: 1 });
+
+export const WebhookDelivery = mongoose.model<IWebhookDelivery>('WebhookDelivery', webhookDeliverySchema);
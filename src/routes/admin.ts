@@ -0,0 +1,18 @@
+import { Router } from 'express';
+import { getJobs, getJob, runJob, pauseJob, resumeJob } from '../controllers/jobController';
+import { authenticate, authorize } from '../middleware/auth';
+import { UserRole } from '../models/User';
+
+const router = Router();
+
+// All routes require an admin
+router.use(authenticate, authorize(UserRole.ADMIN));
+
+// Background job routes
+router.get('/jobs', getJobs);
+router.get('/jobs/:name', getJob);
+router.post('/jobs/:name/run', runJob);
+router.post('/jobs/:name/pause', pauseJob);
+router.post('/jobs/:name/resume', resumeJob);
+
+export default router;
@@ -0,0 +1,20 @@
+import { Router } from 'express';
+import {
+  authorizeUpload,
+  uploadAttachment,
+  getAttachments,
+  downloadAttachment,
+  deleteAttachment,
+} from '../controllers/attachmentController';
+import { uploadSingle } from '../middleware/upload';
+
+// Mounted under /api/tasks/:id/attachments, which already requires authentication
+const router = Router({ mergeParams: true });
+
+// Attachment routes
+router.get('/', getAttachments);
+router.post('/', authorizeUpload, uploadSingle('file'), uploadAttachment);
+router.get('/:attachmentId', downloadAttachment);
+router.delete('/:attachmentId', deleteAttachment);
+
+export default router;
@@ -5,19 +5,41 @@ import {
   getProfile,
   updateProfile,
   changePassword,
+  refresh,
+  logout,
+  logoutAll,
+  verifyEmail,
+  resendVerification,
+  forgotPassword,
+  resetPassword,
 } from '../controllers/authController';
 import { authenticate } from '../middleware/auth';
-import { validate, registerSchema, loginSchema } from '../middleware/validation';
+import {
+  validate,
+  registerSchema,
+  loginSchema,
+  refreshTokenSchema,
+  emailSchema,
+  tokenSchema,
+  resetPasswordSchema,
+} from '../middleware/validation';
 
 const router = Router();
 
 // Public routes
 router.post('/register', validate(registerSchema), register);
 router.post('/login', validate(loginSchema), login);
+router.post('/refresh', validate(refreshTokenSchema), refresh);
+router.post('/logout', validate(refreshTokenSchema), logout);
+router.post('/verify-email', validate(tokenSchema), verifyEmail);
+router.post('/resend-verification', validate(emailSchema), resendVerification);
+router.post('/forgot-password', validate(emailSchema), forgotPassword);
+router.post('/reset-password', validate(resetPasswordSchema), resetPassword);
 
 // Protected routes
 router.get('/profile', authenticate, getProfile);
 router.put('/profile', authenticate, updateProfile);
 router.put('/change-password', authenticate, changePassword);
+router.post('/logout-all', authenticate, logoutAll);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import { createFeedToken, revokeFeedToken, getCalendarFeed } from '../controllers/calendarController';
+import { authenticate } from '../middleware/auth';
+import { validateQuery, calendarFeedQuerySchema } from '../middleware/validation';
+
+const router = Router();
+
+// Public routes (authenticated by the feed token)
+router.get('/feed/:token.ics', validateQuery(calendarFeedQuerySchema), getCalendarFeed);
+
+// Protected routes
+router.post('/feed-token', authenticate, createFeedToken);
+router.delete('/feed-token', authenticate, revokeFeedToken);
+
+export default router;
@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import {
+  getComments,
+  createComment,
+  updateComment,
+  deleteComment,
+} from '../controllers/commentController';
+import { validate, validateQuery, commentSchema, updateCommentSchema, pageQuerySchema } from '../middleware/validation';
+
+// Mounted under /api/tasks/:id/comments, which already requires authentication
+const router = Router({ mergeParams: true });
+
+// Comment routes
+router.get('/', validateQuery(pageQuerySchema), getComments);
+router.post('/', validate(commentSchema), createComment);
+router.put('/:commentId', validate(updateCommentSchema), updateComment);
+router.delete('/:commentId', deleteComment);
+
+export default router;
@@ -0,0 +1,11 @@
+import { Router } from 'express';
+import { createStreamToken, streamEvents } from '../controllers/eventController';
+import { authenticate, authenticateStream } from '../middleware/auth';
+
+const router = Router();
+
+// EventSource clients cannot send headers, so they exchange their access token for a short-lived stream token
+router.post('/token', authenticate, createStreamToken);
+router.get('/stream', authenticateStream, streamEvents);
+
+export default router;
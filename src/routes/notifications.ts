@@ -0,0 +1,31 @@
+import { Router } from 'express';
+import {
+  getNotifications,
+  getUnreadCount,
+  markNotificationRead,
+  markAllNotificationsRead,
+  getNotificationPreferences,
+  updateNotificationPreferences,
+} from '../controllers/notificationController';
+import { authenticate } from '../middleware/auth';
+import {
+  validate,
+  validateQuery,
+  notificationPreferencesSchema,
+  notificationQuerySchema,
+} from '../middleware/validation';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Notification routes
+router.get('/', validateQuery(notificationQuerySchema), getNotifications);
+router.get('/unread-count', getUnreadCount);
+router.put('/read-all', markAllNotificationsRead);
+router.get('/preferences', getNotificationPreferences);
+router.put('/preferences', validate(notificationPreferencesSchema), updateNotificationPreferences);
+router.put('/:id/read', markNotificationRead);
+
+export default router;
@@ -0,0 +1,42 @@
+import { Router } from 'express';
+import {
+  createProject,
+  getProjects,
+  getProject,
+  updateProject,
+  deleteProject,
+  addProjectMember,
+  updateProjectMember,
+  removeProjectMember,
+  getProjectStats,
+} from '../controllers/projectController';
+import { authenticate } from '../middleware/auth';
+import {
+  validate,
+  validateQuery,
+  projectSchema,
+  updateProjectSchema,
+  projectMemberSchema,
+  updateProjectMemberSchema,
+  projectQuerySchema,
+} from '../middleware/validation';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Project routes
+router.get('/', validateQuery(projectQuerySchema), getProjects);
+router.post('/', validate(projectSchema), createProject);
+router.get('/:id', getProject);
+router.put('/:id', validate(updateProjectSchema), updateProject);
+router.delete('/:id', deleteProject);
+router.get('/:id/stats', getProjectStats);
+
+// Member routes
+router.post('/:id/members', validate(projectMemberSchema), addProjectMember);
+router.put('/:id/members/:userId', validate(updateProjectMemberSchema), updateProjectMember);
+router.delete('/:id/members/:userId', removeProjectMember);
+
+export default router;
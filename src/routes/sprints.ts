@@ -0,0 +1,47 @@
+import { Router } from 'express';
+import {
+  createSprint,
+  getSprints,
+  getSprint,
+  updateSprint,
+  deleteSprint,
+  getSprintTasks,
+  addSprintTasks,
+  removeSprintTask,
+  getSprintStats,
+  getSprintBurndown,
+  getSprintBurnup,
+} from '../controllers/sprintController';
+import { authenticate } from '../middleware/auth';
+import {
+  validate,
+  validateQuery,
+  sprintSchema,
+  updateSprintSchema,
+  sprintTasksSchema,
+  taskQuerySchema,
+} from '../middleware/validation';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Sprint routes
+router.get('/', getSprints);
+router.post('/', validate(sprintSchema), createSprint);
+router.get('/:id', getSprint);
+router.put('/:id', validate(updateSprintSchema), updateSprint);
+router.delete('/:id', deleteSprint);
+
+// Scope routes
+router.get('/:id/tasks', validateQuery(taskQuerySchema), getSprintTasks);
+router.post('/:id/tasks', validate(sprintTasksSchema), addSprintTasks);
+router.delete('/:id/tasks/:taskId', removeSprintTask);
+
+// Progress routes
+router.get('/:id/stats', getSprintStats);
+router.get('/:id/burndown', getSprintBurndown);
+router.get('/:id/burnup', getSprintBurnup);
+
+export default router;
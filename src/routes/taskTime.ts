@@ -0,0 +1,13 @@
+import { Router } from 'express';
+import { getTaskTime, logTaskTime, startTaskTimer } from '../controllers/timeController';
+import { validate, timeEntrySchema, startTimerSchema } from '../middleware/validation';
+
+// Mounted under /api/tasks/:id/time, which already requires authentication
+const router = Router({ mergeParams: true });
+
+// Task time routes
+router.get('/', getTaskTime);
+router.post('/', validate(timeEntrySchema), logTaskTime);
+router.post('/start', validate(startTimerSchema), startTaskTimer);
+
+export default router;
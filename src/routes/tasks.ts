@@ -1,4 +1,4 @@
-import { Router } from 'express';
+import express, { Router } from 'express';
 import {
   createTask,
   getTasks,
@@ -6,9 +6,47 @@ import {
   updateTask,
   deleteTask,
   getTaskStats,
+  getAllTasks,
+  getTaskHistory,
+  transitionTask,
+  getBoard,
+  moveTask,
+  claimTask,
+  unclaimTask,
+  addAssignee,
+  removeAssignee,
+  watchTask,
+  unwatchTask,
+  getWatchers,
+  addWatcher,
+  removeWatcher,
+  addDependency,
+  removeDependency,
+  bulkUpdateTasks,
+  exportTasks,
+  importTasks,
 } from '../controllers/taskController';
-import { authenticate } from '../middleware/auth';
-import { validate, taskSchema, updateTaskSchema } from '../middleware/validation';
+import { authenticate, authorize } from '../middleware/auth';
+import {
+  validate,
+  validateQuery,
+  taskQuerySchema,
+  taskSchema,
+  updateTaskSchema,
+  transitionTaskSchema,
+  dependencySchema,
+  taskUserSchema,
+  boardQuerySchema,
+  moveTaskSchema,
+  bulkTaskSchema,
+  exportQuerySchema,
+  importQuerySchema,
+  pageQuerySchema,
+} from '../middleware/validation';
+import { UserRole } from '../models/User';
+import commentRoutes from './comments';
+import attachmentRoutes from './attachments';
+import taskTimeRoutes from './taskTime';
 
 const router = Router();
 
@@ -17,10 +55,39 @@ router.use(authenticate);
 
 // Task routes
 router.get('/stats', getTaskStats);
-router.get('/', getTasks);
+router.get('/all', authorize(UserRole.ADMIN, UserRole.MANAGER), validateQuery(taskQuerySchema), getAllTasks);
+router.get('/', validateQuery(taskQuerySchema), getTasks);
 router.post('/', validate(taskSchema), createTask);
+router.post('/bulk', validate(bulkTaskSchema), bulkUpdateTasks);
+router.get('/export', validateQuery(exportQuerySchema), exportTasks);
+router.get('/board', validateQuery(boardQuerySchema), getBoard);
+router.post(
+  '/import',
+  express.text({ type: ['text/csv', 'application/x-ndjson'], limit: '10mb' }),
+  validateQuery(importQuerySchema),
+  importTasks
+);
 router.get('/:id', getTask);
 router.put('/:id', validate(updateTaskSchema), updateTask);
 router.delete('/:id', deleteTask);
+router.get('/:id/history', validateQuery(pageQuerySchema), getTaskHistory);
+router.post('/:id/transition', validate(transitionTaskSchema), transitionTask);
+router.post('/:id/move', validate(moveTaskSchema), moveTask);
+router.post('/:id/claim', claimTask);
+router.post('/:id/unclaim', unclaimTask);
+router.post('/:id/dependencies', validate(dependencySchema), addDependency);
+router.delete('/:id/dependencies/:blockerId', removeDependency);
+router.post('/:id/assignees', validate(taskUserSchema), addAssignee);
+router.delete('/:id/assignees/:userId', removeAssignee);
+router.post('/:id/watch', watchTask);
+router.delete('/:id/watch', unwatchTask);
+router.get('/:id/watchers', getWatchers);
+router.post('/:id/watchers', validate(taskUserSchema), addWatcher);
+router.delete('/:id/watchers/:userId', removeWatcher);
+
+// Nested resources
+router.use('/:id/comments', commentRoutes);
+router.use('/:id/attachments', attachmentRoutes);
+router.use('/:id/time', taskTimeRoutes);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,39 @@
+import { Router } from 'express';
+import {
+  createTeam,
+  getTeams,
+  getTeam,
+  updateTeam,
+  deleteTeam,
+  addTeamMember,
+  updateTeamMember,
+  removeTeamMember,
+} from '../controllers/teamController';
+import { authenticate, authorize } from '../middleware/auth';
+import {
+  validate,
+  teamSchema,
+  updateTeamSchema,
+  teamMemberSchema,
+  updateTeamMemberSchema,
+} from '../middleware/validation';
+import { UserRole } from '../models/User';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Team routes
+router.get('/', getTeams);
+router.post('/', authorize(UserRole.ADMIN, UserRole.MANAGER), validate(teamSchema), createTeam);
+router.get('/:id', getTeam);
+router.put('/:id', validate(updateTeamSchema), updateTeam);
+router.delete('/:id', authorize(UserRole.ADMIN, UserRole.MANAGER), deleteTeam);
+
+// Member routes
+router.post('/:id/members', validate(teamMemberSchema), addTeamMember);
+router.put('/:id/members/:userId', validate(updateTeamMemberSchema), updateTeamMember);
+router.delete('/:id/members/:userId', removeTeamMember);
+
+export default router;
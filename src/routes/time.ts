@@ -0,0 +1,29 @@
+import { Router } from 'express';
+import {
+  getRunningTimer,
+  stopTimer,
+  updateTimeEntry,
+  deleteTimeEntry,
+  getTimeReport,
+} from '../controllers/timeController';
+import { authenticate } from '../middleware/auth';
+import {
+  validate,
+  validateQuery,
+  updateTimeEntrySchema,
+  timeReportQuerySchema,
+} from '../middleware/validation';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Time tracking routes
+router.get('/timer', getRunningTimer);
+router.post('/timer/stop', stopTimer);
+router.get('/report', validateQuery(timeReportQuerySchema), getTimeReport);
+router.put('/entries/:entryId', validate(updateTimeEntrySchema), updateTimeEntry);
+router.delete('/entries/:entryId', deleteTimeEntry);
+
+export default router;
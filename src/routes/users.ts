@@ -4,18 +4,26 @@ import {
   getUser,
   deactivateUser,
   getUserTasks,
+  updateUserRole,
+  reactivateUser,
 } from '../controllers/userController';
-import { authenticate } from '../middleware/auth';
+import { authenticate, authorize, authorizeSelfOr } from '../middleware/auth';
+import { validate, updateRoleSchema } from '../middleware/validation';
+import { UserRole } from '../models/User';
 
 const router = Router();
 
 // All routes require authentication
 router.use(authenticate);
 
-// User routes
-router.get('/', getAllUsers);
-router.get('/:id', getUser);
-router.get('/:id/tasks', getUserTasks);
+// User routes; other users' profiles and tasks are for admins and managers
+router.get('/', authorize(UserRole.ADMIN, UserRole.MANAGER), getAllUsers);
+router.get('/:id', authorizeSelfOr(UserRole.ADMIN, UserRole.MANAGER), getUser);
+router.get('/:id/tasks', authorizeSelfOr(UserRole.ADMIN, UserRole.MANAGER), getUserTasks);
 router.put('/deactivate', deactivateUser);
 
+// Admin routes
+router.put('/:id/role', authorize(UserRole.ADMIN), validate(updateRoleSchema), updateUserRole);
+router.put('/:id/reactivate', authorize(UserRole.ADMIN), reactivateUser);
+
 export default router;
\ No newline at end of file
@@ -0,0 +1,26 @@
+import { Router } from 'express';
+import {
+  createView,
+  getViews,
+  getView,
+  updateView,
+  deleteView,
+  getViewTasks,
+} from '../controllers/viewController';
+import { authenticate } from '../middleware/auth';
+import { validate, viewSchema, updateViewSchema } from '../middleware/validation';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Saved view routes
+router.get('/', getViews);
+router.post('/', validate(viewSchema), createView);
+router.get('/:id', getView);
+router.put('/:id', validate(updateViewSchema), updateView);
+router.delete('/:id', deleteView);
+router.get('/:id/tasks', getViewTasks);
+
+export default router;
@@ -0,0 +1,36 @@
+import { Router } from 'express';
+import {
+  createWebhook,
+  getWebhooks,
+  getWebhook,
+  updateWebhook,
+  rotateWebhookSecret,
+  deleteWebhook,
+  getWebhookDeliveries,
+  sendTestEvent,
+} from '../controllers/webhookController';
+import { authenticate } from '../middleware/auth';
+import {
+  validate,
+  validateQuery,
+  webhookSchema,
+  updateWebhookSchema,
+  webhookDeliveryQuerySchema,
+} from '../middleware/validation';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Webhook routes
+router.get('/', getWebhooks);
+router.post('/', validate(webhookSchema), createWebhook);
+router.get('/:id', getWebhook);
+router.put('/:id', validate(updateWebhookSchema), updateWebhook);
+router.delete('/:id', deleteWebhook);
+router.post('/:id/rotate-secret', rotateWebhookSecret);
+router.get('/:id/deliveries', validateQuery(webhookDeliveryQuerySchema), getWebhookDeliveries);
+router.post('/:id/test', sendTestEvent);
+
+export default router;
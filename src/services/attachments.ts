@@ -0,0 +1,59 @@
+import crypto from 'crypto';
+import path from 'path';
+import mongoose from 'mongoose';
+import { Attachment, IAttachment } from '../models/Attachment';
+import { logger } from '../utils/logger';
+import { getStorageDriver } from './storage';
+
+// Store an uploaded file and record it against the task
+export const storeAttachment = async (
+  taskId: mongoose.Types.ObjectId,
+  userId: mongoose.Types.ObjectId,
+  file: Express.Multer.File
+): Promise<IAttachment> => {
+  // Random keys keep user-supplied names out of storage paths
+  const extension = path.extname(file.originalname).toLowerCase().replace(/[^a-z0-9.]/g, '');
+  const storageKey = `tasks/${taskId}/${crypto.randomBytes(16).toString('hex')}${extension}`;
+
+  await getStorageDriver().put(storageKey, file.buffer);
+
+  try {
+    return await Attachment.create({
+      task: taskId,
+      uploadedBy: userId,
+      originalName: file.originalname,
+      mimeType: file.mimetype,
+      size: file.size,
+      storageKey,
+    });
+  } catch (error) {
+    await getStorageDriver().delete(storageKey);
+    throw error;
+  }
+};
+
+// Remove an attachment's file and record
+export const removeAttachment = async (attachmentId: mongoose.Types.ObjectId): Promise<void> => {
+  const attachment = await Attachment.findById(attachmentId).select('+storageKey');
+  if (!attachment) {
+    return;
+  }
+
+  await getStorageDriver().delete(attachment.storageKey);
+  await Attachment.findByIdAndDelete(attachment._id);
+};
+
+// Remove every attachment of a deleted task; failures are logged rather than thrown
+export const removeTaskAttachments = async (taskId: mongoose.Types.ObjectId): Promise<void> => {
+  const attachments = await Attachment.find({ task: taskId }).select('+storageKey');
+
+  for (const attachment of attachments) {
+    try {
+      await getStorageDriver().delete(attachment.storageKey);
+    } catch (error) {
+      logger.error(`Failed to delete stored file for attachment ${attachment._id}:`, error);
+    }
+  }
+
+  await Attachment.deleteMany({ task: taskId });
+};
@@ -0,0 +1,93 @@
+import { ITask, TaskStatus, TaskPriority } from '../models/Task';
+import { IUser } from '../models/User';
+import { buildCalendar, buildComponent, escapeText, formatDateTime, ICalProperty } from '../utils/ical';
+
+export type CalendarEntryType = 'todo' | 'event';
+
+// Length of the VEVENT blocked out for a task that is due
+const EVENT_DURATION = 'PT30M';
+
+const TODO_STATUS: Record<TaskStatus, string> = {
+  [TaskStatus.PENDING]: 'NEEDS-ACTION',
+  [TaskStatus.IN_PROGRESS]: 'IN-PROCESS',
+  [TaskStatus.COMPLETED]: 'COMPLETED',
+  [TaskStatus.CANCELLED]: 'CANCELLED',
+};
+
+const EVENT_STATUS: Record<TaskStatus, string> = {
+  [TaskStatus.PENDING]: 'CONFIRMED',
+  [TaskStatus.IN_PROGRESS]: 'CONFIRMED',
+  [TaskStatus.COMPLETED]: 'CONFIRMED',
+  [TaskStatus.CANCELLED]: 'CANCELLED',
+};
+
+// iCalendar priorities run from 1 (highest) to 9 (lowest)
+const ICAL_PRIORITY: Record<TaskPriority, number> = {
+  [TaskPriority.URGENT]: 1,
+  [TaskPriority.HIGH]: 3,
+  [TaskPriority.MEDIUM]: 5,
+  [TaskPriority.LOW]: 9,
+};
+
+const appUrl = (): string => process.env.APP_URL || 'http://localhost:3000';
+
+const uidDomain = (): string => {
+  try {
+    return new URL(appUrl()).hostname;
+  } catch {
+    return 'task-management-api';
+  }
+};
+
+const taskEntry = (task: ITask, type: CalendarEntryType): string[] => {
+  const link = `${appUrl()}/tasks/${task._id}`;
+  const description = task.description ? `${task.description}\n\n${link}` : link;
+
+  const properties: ICalProperty[] = [
+    ['UID', `task-${task._id}@${uidDomain()}`],
+    ['DTSTAMP', formatDateTime(task.updatedAt)],
+    ['CREATED', formatDateTime(task.createdAt)],
+    ['LAST-MODIFIED', formatDateTime(task.updatedAt)],
+    ['SUMMARY', escapeText(task.title)],
+    ['DESCRIPTION', escapeText(description)],
+    ['URL', link],
+    ['PRIORITY', ICAL_PRIORITY[task.priority].toString()],
+  ];
+
+  if (task.tags.length) {
+    properties.push(['CATEGORIES', task.tags.map(escapeText).join(',')]);
+  }
+
+  if (type === 'event') {
+    properties.push(
+      ['DTSTART', formatDateTime(task.dueDate!)],
+      ['DURATION', EVENT_DURATION],
+      ['STATUS', EVENT_STATUS[task.status]],
+      ['TRANSP', 'TRANSPARENT']
+    );
+    return buildComponent('VEVENT', properties);
+  }
+
+  properties.push(
+    ['DUE', formatDateTime(task.dueDate!)],
+    ['STATUS', TODO_STATUS[task.status]]
+  );
+
+  if (task.status === TaskStatus.COMPLETED) {
+    properties.push(['PERCENT-COMPLETE', '100']);
+    if (task.completedAt) {
+      properties.push(['COMPLETED', formatDateTime(task.completedAt)]);
+    }
+  } else if (task.progress) {
+    properties.push(['PERCENT-COMPLETE', task.progress.toString()]);
+  }
+
+  return buildComponent('VTODO', properties);
+};
+
+// Calendar document with one entry per task that has a due date
+export const buildTaskCalendar = (user: IUser, tasks: ITask[], type: CalendarEntryType): string =>
+  buildCalendar(
+    `Tasks for ${user.username}`,
+    tasks.filter(task => task.dueDate).map(task => taskEntry(task, type))
+  );
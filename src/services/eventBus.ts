@@ -0,0 +1,64 @@
+import { EventEmitter } from 'events';
+import mongoose from 'mongoose';
+import { ITask } from '../models/Task';
+import { IUser } from '../models/User';
+import { ITaskFieldChange } from '../models/TaskActivity';
+import { logger } from '../utils/logger';
+
+export type TaskEventType =
+  | 'task.created'
+  | 'task.updated'
+  | 'task.deleted'
+  | 'task.assigned'
+  | 'task.completed';
+
+export interface TaskEvent {
+  type: TaskEventType;
+  task: ITask;
+  actorId: mongoose.Types.ObjectId;
+  changes: ITaskFieldChange[];
+  timestamp: Date;
+}
+
+export type UserEventType = 'user.deactivated';
+
+export interface UserEvent {
+  type: UserEventType;
+  user: IUser;
+  actorId: mongoose.Types.ObjectId;
+  timestamp: Date;
+}
+
+type Listener<T> = (event: T) => void | Promise<void>;
+
+// In-process publish/subscribe channel for domain events
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0);
+
+// Listeners run independently of the publisher; their errors are logged, never thrown back
+const subscribe = <T extends { type: string }>(channel: string, listener: Listener<T>): (() => void) => {
+  const handler = (event: T) => {
+    Promise.resolve()
+      .then(() => listener(event))
+      .catch(error => logger.error(`Event listener failed for ${event.type}:`, error));
+  };
+
+  emitter.on(channel, handler);
+  return () => {
+    emitter.off(channel, handler);
+  };
+};
+
+export const publishTaskEvent = (event: TaskEvent): void => {
+  emitter.emit('task', event);
+};
+
+export const subscribeToTaskEvents = (listener: Listener<TaskEvent>): (() => void) =>
+  subscribe('task', listener);
+
+export const publishUserEvent = (event: UserEvent): void => {
+  emitter.emit('user', event);
+};
+
+export const subscribeToUserEvents = (listener: Listener<UserEvent>): (() => void) =>
+  subscribe('user', listener);
@@ -0,0 +1,135 @@
+import crypto from 'crypto';
+import os from 'os';
+import { Job, IJob, JobRunStatus } from '../models/Job';
+import { logger } from '../utils/logger';
+
+export interface JobDefinition {
+  name: string;
+  intervalMs: number;
+  handler: () => Promise<unknown>;
+}
+
+const POLL_INTERVAL_MS = parseInt(process.env.JOB_POLL_INTERVAL_MS || '10000', 10);
+
+// A crashed instance's lock expires after this long, so keep it above the slowest job's run time
+const LOCK_TTL_MS = parseInt(process.env.JOB_LOCK_TTL_MS || '600000', 10);
+
+// Identifies this process in job locks
+const INSTANCE_ID = `${os.hostname()}:${process.pid}:${crypto.randomBytes(4).toString('hex')}`;
+
+const definitions = new Map<string, JobDefinition>();
+let pollTimer: NodeJS.Timeout | null = null;
+let ticking = false;
+
+export const defineJob = (definition: JobDefinition): void => {
+  definitions.set(definition.name, definition);
+};
+
+export const getJobDefinitions = (): JobDefinition[] => Array.from(definitions.values());
+
+// Claim the job if it is due and nobody else holds it, run it, then schedule the next run
+const runIfDue = async (definition: JobDefinition): Promise<void> => {
+  const now = new Date();
+
+  const job = await Job.findOneAndUpdate(
+    {
+      name: definition.name,
+      isPaused: false,
+      nextRunAt: { $lte: now },
+      $or: [{ lockedUntil: null }, { lockedUntil: { $lte: now } }],
+    },
+    {
+      lockedBy: INSTANCE_ID,
+      lockedUntil: new Date(now.getTime() + LOCK_TTL_MS),
+      lastStartedAt: now,
+    },
+    { new: true }
+  );
+  if (!job) {
+    return;
+  }
+
+  let result: unknown = null;
+  let error: string | null = null;
+
+  try {
+    result = await definition.handler();
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+    logger.error(`Job ${definition.name} failed:`, err);
+  }
+
+  const finishedAt = new Date();
+
+  // Only release the lock if it is still ours; another instance may have taken over an expired lock
+  await Job.updateOne(
+    { _id: job._id, lockedBy: INSTANCE_ID },
+    {
+      $set: {
+        lockedBy: null,
+        lockedUntil: null,
+        lastFinishedAt: finishedAt,
+        lastDurationMs: finishedAt.getTime() - now.getTime(),
+        lastStatus: error ? JobRunStatus.FAILED : JobRunStatus.SUCCEEDED,
+        lastError: error,
+        lastResult: result ?? null,
+        nextRunAt: new Date(finishedAt.getTime() + job.intervalMs),
+      },
+      $inc: {
+        runCount: 1,
+        failureCount: error ? 1 : 0,
+      },
+    }
+  );
+};
+
+const tick = async (): Promise<void> => {
+  // A slow job must not cause overlapping ticks in this process
+  if (ticking) {
+    return;
+  }
+
+  ticking = true;
+  try {
+    for (const definition of definitions.values()) {
+      try {
+        await runIfDue(definition);
+      } catch (error) {
+        logger.error(`Could not run job ${definition.name}:`, error);
+      }
+    }
+  } finally {
+    ticking = false;
+  }
+};
+
+// Make sure every defined job has a record, then start polling for due jobs
+export const startJobRunner = async (): Promise<void> => {
+  for (const definition of definitions.values()) {
+    await Job.updateOne(
+      { name: definition.name },
+      {
+        $set: { intervalMs: definition.intervalMs },
+        $setOnInsert: { nextRunAt: new Date() },
+      },
+      { upsert: true }
+    );
+  }
+
+  pollTimer = setInterval(() => {
+    tick().catch(error => logger.error('Job runner tick failed:', error));
+  }, POLL_INTERVAL_MS);
+
+  logger.info(`Job runner started as ${INSTANCE_ID} with ${definitions.size} jobs`);
+};
+
+export const stopJobRunner = (): void => {
+  if (pollTimer) {
+    clearInterval(pollTimer);
+    pollTimer = null;
+  }
+};
+
+// Ask for a job to run on the next poll of whichever instance claims it first
+export const scheduleJobNow = async (name: string): Promise<IJob | null> =>
+  Job.findOneAndUpdate({ name }, { nextRunAt: new Date() }, { new: true });
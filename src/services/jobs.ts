@@ -0,0 +1,94 @@
+import { Task, TaskStatus, STATUS_ORDER, PRIORITY_ORDER } from '../models/Task';
+import { defineJob } from './jobRunner';
+import { generateDueOccurrences } from './recurrence';
+import { notifyDueTasks } from './notifications';
+import { retryPendingDeliveries } from './webhooks';
+import { maintainBoardRanks } from './taskBoard';
+
+const OPEN_STATUSES = [TaskStatus.PENDING, TaskStatus.IN_PROGRESS];
+
+// Flag open tasks past their due date and clear the flag on tasks that no longer are
+export const flagOverdueTasks = async (): Promise<{ flagged: number; cleared: number }> => {
+  const now = new Date();
+
+  const flagged = await Task.updateMany(
+    { status: { $in: OPEN_STATUSES }, dueDate: { $lte: now }, overdueAt: null },
+    { $set: { overdueAt: now } }
+  );
+
+  const cleared = await Task.updateMany(
+    {
+      overdueAt: { $ne: null },
+      $or: [
+        { status: { $nin: OPEN_STATUSES } },
+        { dueDate: null },
+        { dueDate: { $gt: now } },
+      ],
+    },
+    { $set: { overdueAt: null } }
+  );
+
+  return { flagged: flagged.modifiedCount, cleared: cleared.modifiedCount };
+};
+
+// Fill in the sort orders of tasks saved before they were stored, or written around the model hooks
+export const syncTaskSortOrders = async (): Promise<{ updated: number }> => {
+  let updated = 0;
+
+  for (const [index, status] of STATUS_ORDER.entries()) {
+    const result = await Task.collection.updateMany(
+      { status, statusOrder: { $ne: index } },
+      { $set: { statusOrder: index } }
+    );
+    updated += result.modifiedCount;
+  }
+
+  for (const [index, priority] of PRIORITY_ORDER.entries()) {
+    const result = await Task.collection.updateMany(
+      { priority, priorityOrder: { $ne: index } },
+      { $set: { priorityOrder: index } }
+    );
+    updated += result.modifiedCount;
+  }
+
+  return { updated };
+};
+
+// Periodic jobs run by the job runner; intervals can be tuned per deployment
+export const defineDefaultJobs = (): void => {
+  defineJob({
+    name: 'recurring-tasks',
+    intervalMs: parseInt(process.env.RECURRENCE_SWEEP_INTERVAL_MS || '300000', 10), // 5 minutes
+    handler: async () => ({ created: await generateDueOccurrences() }),
+  });
+
+  defineJob({
+    name: 'due-date-reminders',
+    intervalMs: parseInt(process.env.DUE_DATE_SWEEP_INTERVAL_MS || '900000', 10), // 15 minutes
+    handler: notifyDueTasks,
+  });
+
+  defineJob({
+    name: 'overdue-tasks',
+    intervalMs: parseInt(process.env.OVERDUE_SWEEP_INTERVAL_MS || '300000', 10), // 5 minutes
+    handler: flagOverdueTasks,
+  });
+
+  defineJob({
+    name: 'webhook-retries',
+    intervalMs: parseInt(process.env.WEBHOOK_RETRY_INTERVAL_MS || '30000', 10), // 30 seconds
+    handler: async () => ({ retried: await retryPendingDeliveries() }),
+  });
+
+  defineJob({
+    name: 'task-sort-orders',
+    intervalMs: parseInt(process.env.TASK_SORT_ORDER_INTERVAL_MS || '86400000', 10), // 1 day
+    handler: syncTaskSortOrders,
+  });
+
+  defineJob({
+    name: 'board-ranks',
+    intervalMs: parseInt(process.env.BOARD_RANK_INTERVAL_MS || '3600000', 10), // 1 hour
+    handler: maintainBoardRanks,
+  });
+};
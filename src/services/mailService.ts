@@ -0,0 +1,101 @@
+import fs from 'fs/promises';
+import path from 'path';
+import nodemailer, { Transporter } from 'nodemailer';
+import { logger } from '../utils/logger';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+// Delivers mail through an SMTP server
+export class SmtpTransport implements MailTransport {
+  private transporter: Transporter;
+
+  constructor() {
+    this.transporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port: parseInt(process.env.SMTP_PORT || '587', 10),
+      secure: process.env.SMTP_SECURE === 'true',
+      auth: process.env.SMTP_USER
+        ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+        : undefined,
+    });
+  }
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await this.transporter.sendMail(message);
+  }
+}
+
+// Keeps sent mail in memory, useful for automated tests
+export class MemoryTransport implements MailTransport {
+  public sent: Array<MailMessage & { from: string }> = [];
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    this.sent.push(message);
+  }
+
+  clear(): void {
+    this.sent = [];
+  }
+}
+
+// Writes each message to a JSON file, useful for local development
+export class FileTransport implements MailTransport {
+  constructor(private directory: string) {}
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    const filename = `${Date.now()}-${message.to.replace(/[^a-zA-Z0-9@._-]/g, '_')}.json`;
+    const filePath = path.join(this.directory, filename);
+
+    await fs.writeFile(
+      filePath,
+      JSON.stringify({ ...message, date: new Date().toISOString() }, null, 2)
+    );
+    logger.debug(`Mail written to ${filePath}`);
+  }
+}
+
+const createTransport = (): MailTransport => {
+  const type = process.env.MAIL_TRANSPORT || 'file';
+
+  switch (type) {
+    case 'smtp':
+      return new SmtpTransport();
+    case 'memory':
+      return new MemoryTransport();
+    case 'file':
+      return new FileTransport(process.env.MAIL_FILE_DIR || 'mail');
+    default:
+      throw new Error(`Unknown mail transport: ${type}`);
+  }
+};
+
+let transport: MailTransport | null = null;
+
+export const getMailTransport = (): MailTransport => {
+  if (!transport) {
+    transport = createTransport();
+  }
+  return transport;
+};
+
+export const setMailTransport = (mailTransport: MailTransport): void => {
+  transport = mailTransport;
+};
+
+export const sendMail = async (message: MailMessage): Promise<void> => {
+  await getMailTransport().send({
+    from: process.env.MAIL_FROM || 'Task Management <no-reply@localhost>',
+    ...message,
+  });
+};
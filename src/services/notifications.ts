@@ -0,0 +1,194 @@
+import mongoose from 'mongoose';
+import { Notification, NotificationType } from '../models/Notification';
+import { Task, ITask, TaskStatus } from '../models/Task';
+import { User, INotificationPreferences } from '../models/User';
+import { logger } from '../utils/logger';
+import { subscribeToTaskEvents, TaskEvent } from './eventBus';
+
+const DUE_SOON_WINDOW_MS = parseInt(process.env.DUE_SOON_WINDOW_HOURS || '24', 10) * 60 * 60 * 1000;
+
+const OPEN_STATUSES = [TaskStatus.PENDING, TaskStatus.IN_PROGRESS];
+
+// Preference that controls each notification type
+const PREFERENCE_FOR: Record<NotificationType, keyof INotificationPreferences> = {
+  [NotificationType.TASK_ASSIGNED]: 'taskAssigned',
+  [NotificationType.TASK_REASSIGNED]: 'taskReassigned',
+  [NotificationType.TASK_STATUS_CHANGED]: 'taskStatusChanged',
+  [NotificationType.TASK_DUE_SOON]: 'taskDueSoon',
+  [NotificationType.TASK_OVERDUE]: 'taskOverdue',
+};
+
+type ObjectIdLike = mongoose.Types.ObjectId | string;
+
+// Create a notification unless the recipient is the actor or has opted out of this type
+export const notify = async (
+  recipientId: ObjectIdLike,
+  type: NotificationType,
+  message: string,
+  task?: ITask,
+  actorId?: ObjectIdLike
+): Promise<void> => {
+  if (actorId && recipientId.toString() === actorId.toString()) {
+    return;
+  }
+
+  const recipient = await User.findById(recipientId).select('isActive notificationPreferences');
+  if (!recipient || !recipient.isActive) {
+    return;
+  }
+
+  if (recipient.notificationPreferences?.[PREFERENCE_FOR[type]] === false) {
+    return;
+  }
+
+  await Notification.create({
+    recipient: recipient._id,
+    type,
+    task: task?._id || null,
+    actor: actorId || null,
+    message,
+  });
+};
+
+// Turn task events into notifications for the people involved
+const handleTaskEvent = async (event: TaskEvent): Promise<void> => {
+  const { task, actorId, changes } = event;
+  const creatorId = task.createdBy._id;
+
+  if (event.type === 'task.created') {
+    const assigneeIds = [...(task.assignedTo ? [task.assignedTo] : []), ...(task.assignees || [])];
+    for (const assigneeId of assigneeIds) {
+      await notify(
+        assigneeId._id,
+        NotificationType.TASK_ASSIGNED,
+        `You were assigned "${task.title}"`,
+        task,
+        actorId
+      );
+    }
+    return;
+  }
+
+  if (event.type !== 'task.updated') {
+    return;
+  }
+
+  const assigneeChange = changes.find(change => change.field === 'assignedTo');
+  if (assigneeChange) {
+    if (assigneeChange.to) {
+      await notify(
+        assigneeChange.to as string,
+        NotificationType.TASK_REASSIGNED,
+        `"${task.title}" was reassigned to you`,
+        task,
+        actorId
+      );
+    }
+    if (assigneeChange.from) {
+      await notify(
+        assigneeChange.from as string,
+        NotificationType.TASK_REASSIGNED,
+        `"${task.title}" was reassigned to someone else`,
+        task,
+        actorId
+      );
+    }
+  }
+
+  // Co-assignees are told when they join or leave a task
+  const coAssigneeChange = changes.find(change => change.field === 'assignees');
+  if (coAssigneeChange) {
+    const from = (coAssigneeChange.from as string[] | null) || [];
+    const to = (coAssigneeChange.to as string[] | null) || [];
+
+    for (const userId of to.filter(id => !from.includes(id))) {
+      await notify(userId, NotificationType.TASK_ASSIGNED, `You were added to "${task.title}"`, task, actorId);
+    }
+    for (const userId of from.filter(id => !to.includes(id))) {
+      await notify(userId, NotificationType.TASK_REASSIGNED, `You were removed from "${task.title}"`, task, actorId);
+    }
+  }
+
+  // The creator and everyone watching hear about status changes
+  const statusChange = changes.find(change => change.field === 'status');
+  if (statusChange) {
+    const recipients = new Set([creatorId.toString(), ...(task.watchers || []).map(id => id.toString())]);
+    for (const recipientId of recipients) {
+      await notify(
+        recipientId,
+        NotificationType.TASK_STATUS_CHANGED,
+        `"${task.title}" moved from ${statusChange.from} to ${statusChange.to}`,
+        task,
+        actorId
+      );
+    }
+  }
+};
+
+subscribeToTaskEvents(handleTaskEvent);
+
+// Send one due-soon and one overdue notification per open task and due date
+export const notifyDueTasks = async (): Promise<{ dueSoon: number; overdue: number }> => {
+  const now = new Date();
+
+  const dueSoonTasks = await Task.find({
+    status: { $in: OPEN_STATUSES },
+    dueDate: { $gt: now, $lte: new Date(now.getTime() + DUE_SOON_WINDOW_MS) },
+    dueSoonNotifiedAt: null,
+  });
+
+  for (const task of dueSoonTasks) {
+    try {
+      // Claim the task first so concurrent sweeps do not notify twice
+      const claimed = await Task.updateOne(
+        { _id: task._id, dueSoonNotifiedAt: null },
+        { dueSoonNotifiedAt: now }
+      );
+      if (claimed.modifiedCount === 0) {
+        continue;
+      }
+      const assigneeIds = [...(task.assignedTo ? [task.assignedTo] : []), ...task.assignees];
+      for (const assigneeId of assigneeIds) {
+        await notify(
+          assigneeId,
+          NotificationType.TASK_DUE_SOON,
+          `"${task.title}" is due ${task.dueDate?.toISOString()}`,
+          task
+        );
+      }
+    } catch (error) {
+      logger.error(`Failed to send due-soon notification for task ${task._id}:`, error);
+    }
+  }
+
+  const overdueTasks = await Task.find({
+    status: { $in: OPEN_STATUSES },
+    dueDate: { $lte: now },
+    overdueNotifiedAt: null,
+  });
+
+  for (const task of overdueTasks) {
+    try {
+      const claimed = await Task.updateOne(
+        { _id: task._id, overdueNotifiedAt: null },
+        { overdueNotifiedAt: now }
+      );
+      if (claimed.modifiedCount === 0) {
+        continue;
+      }
+
+      // The assignees and the creator hear about overdue work
+      const recipients = new Set([task.createdBy.toString(), ...task.assignees.map(id => id.toString())]);
+      if (task.assignedTo) {
+        recipients.add(task.assignedTo.toString());
+      }
+      for (const recipientId of recipients) {
+        await notify(recipientId, NotificationType.TASK_OVERDUE, `"${task.title}" is overdue`, task);
+      }
+    } catch (error) {
+      logger.error(`Failed to send overdue notification for task ${task._id}:`, error);
+    }
+  }
+
+  return { dueSoon: dueSoonTasks.length, overdue: overdueTasks.length };
+};
@@ -0,0 +1,114 @@
+import crypto from 'crypto';
+import { Response } from 'express';
+import { User, IUser } from '../models/User';
+import { logger } from '../utils/logger';
+import { subscribeToTaskEvents, TaskEvent } from './eventBus';
+import { UserMemberships, canViewTaskWith, getUserMemberships } from './taskAccess';
+
+interface StreamClient {
+  id: string;
+  user: IUser;
+  // Token version the stream was opened with; a change means the session was revoked
+  tokenVersion: number;
+  // When the credentials the stream was opened with expire
+  expiresAt: Date | null;
+  // Cached so events do not need a lookup per client; refreshed on every heartbeat
+  memberships: UserMemberships;
+  res: Response;
+}
+
+const HEARTBEAT_INTERVAL_MS = 25000;
+
+const clients = new Map<string, StreamClient>();
+
+const send = (client: StreamClient, event: string, data: unknown): void => {
+  client.res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+};
+
+// Tell the client why the stream ends; it has to reconnect with fresh credentials
+const closeClient = (client: StreamClient, reason: string): void => {
+  clients.delete(client.id);
+  send(client, 'end', { reason });
+  client.res.end();
+};
+
+const isExpired = (client: StreamClient): boolean =>
+  !!client.expiresAt && client.expiresAt.getTime() <= Date.now();
+
+// Reload the user so revoked sessions, deactivations and role or membership changes take effect
+const refreshClient = async (client: StreamClient): Promise<void> => {
+  if (isExpired(client)) {
+    return closeClient(client, 'Token expired');
+  }
+
+  const user = await User.findById(client.user._id);
+  if (!user || !user.isActive) {
+    return closeClient(client, 'User account is deactivated');
+  }
+  if (user.tokenVersion !== client.tokenVersion) {
+    return closeClient(client, 'Token has been revoked');
+  }
+
+  client.user = user;
+  client.memberships = await getUserMemberships(user._id);
+};
+
+// Fan a task event out to every connected user allowed to see the task
+const broadcastTaskEvent = async (event: TaskEvent): Promise<void> => {
+  const payload = {
+    type: event.type,
+    task: event.type === 'task.deleted' ? { _id: event.task._id } : event.task.toJSON(),
+    actor: event.actorId,
+    changes: event.changes,
+    timestamp: event.timestamp,
+  };
+
+  for (const client of clients.values()) {
+    try {
+      if (isExpired(client)) {
+        closeClient(client, 'Token expired');
+      } else if (canViewTaskWith(client.user, event.task, client.memberships)) {
+        send(client, event.type, payload);
+      }
+    } catch (error) {
+      logger.error(`Failed to push ${event.type} to stream client ${client.id}:`, error);
+    }
+  }
+};
+
+subscribeToTaskEvents(broadcastTaskEvent);
+
+// Keep an SSE response open and deliver events to it until the client disconnects or its credentials lapse
+export const openEventStream = async (user: IUser, res: Response, expiresAt?: Date): Promise<void> => {
+  const client: StreamClient = {
+    id: crypto.randomUUID(),
+    user,
+    tokenVersion: user.tokenVersion,
+    expiresAt: expiresAt || null,
+    memberships: await getUserMemberships(user._id),
+    res,
+  };
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+
+  clients.set(client.id, client);
+  send(client, 'connected', { clientId: client.id, expiresAt: client.expiresAt });
+
+  // Comments keep proxies from closing an idle connection
+  const heartbeat = setInterval(() => {
+    res.write(': heartbeat\n\n');
+    refreshClient(client).catch(error => {
+      logger.error(`Failed to refresh stream client ${client.id}:`, error);
+    });
+  }, HEARTBEAT_INTERVAL_MS);
+
+  res.on('close', () => {
+    clearInterval(heartbeat);
+    clients.delete(client.id);
+  });
+};
@@ -0,0 +1,52 @@
+import { IRecurrence, RecurrenceFrequency } from '../models/Task';
+import { computeNextDueDate } from './recurrence';
+
+const rule = (frequency: RecurrenceFrequency, options: Partial<IRecurrence> = {}): IRecurrence => ({
+  frequency,
+  interval: 1,
+  occurrence: 1,
+  ...options,
+});
+
+const next = (recurrence: IRecurrence, from: string): string =>
+  computeNextDueDate(recurrence, new Date(from)).toISOString();
+
+describe('computeNextDueDate', () => {
+  it('adds whole days and keeps the time of day', () => {
+    expect(next(rule(RecurrenceFrequency.DAILY), '2025-01-15T09:30:00.000Z')).toBe('2025-01-16T09:30:00.000Z');
+    expect(next(rule(RecurrenceFrequency.DAILY, { interval: 3 }), '2025-01-30T09:30:00.000Z'))
+      .toBe('2025-02-02T09:30:00.000Z');
+  });
+
+  it('repeats weekly on the same weekday by default', () => {
+    expect(next(rule(RecurrenceFrequency.WEEKLY, { interval: 2 }), '2025-01-15T09:00:00.000Z'))
+      .toBe('2025-01-29T09:00:00.000Z');
+  });
+
+  it('moves to the next listed weekday', () => {
+    // Wednesday to the following Monday
+    expect(next(rule(RecurrenceFrequency.WEEKLY, { byWeekday: [1, 3] }), '2025-01-15T09:00:00.000Z'))
+      .toBe('2025-01-20T09:00:00.000Z');
+  });
+
+  it('skips the weeks between intervals', () => {
+    const everyOtherWeek = rule(RecurrenceFrequency.WEEKLY, { interval: 2, byWeekday: [1, 5] });
+
+    // Monday to Friday of the same week, then Friday to Monday two weeks on
+    expect(next(everyOtherWeek, '2025-01-13T09:00:00.000Z')).toBe('2025-01-17T09:00:00.000Z');
+    expect(next(everyOtherWeek, '2025-01-17T09:00:00.000Z')).toBe('2025-01-27T09:00:00.000Z');
+  });
+
+  it('clamps monthly occurrences to the end of shorter months', () => {
+    const endOfMonth = rule(RecurrenceFrequency.MONTHLY, { byMonthDay: 31 });
+
+    expect(next(endOfMonth, '2025-01-31T12:00:00.000Z')).toBe('2025-02-28T12:00:00.000Z');
+    expect(next(endOfMonth, '2025-02-28T12:00:00.000Z')).toBe('2025-03-31T12:00:00.000Z');
+  });
+
+  it('moves across year boundaries', () => {
+    expect(next(rule(RecurrenceFrequency.MONTHLY, { interval: 2 }), '2025-12-10T08:00:00.000Z'))
+      .toBe('2026-02-10T08:00:00.000Z');
+    expect(next(rule(RecurrenceFrequency.YEARLY), '2024-02-29T08:00:00.000Z')).toBe('2025-02-28T08:00:00.000Z');
+  });
+});
@@ -0,0 +1,167 @@
+import mongoose from 'mongoose';
+import { Task, ITask, IRecurrence, RecurrenceFrequency, TaskStatus } from '../models/Task';
+import { logger } from '../utils/logger';
+import { recordTaskCreated } from './taskActivity';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const daysInMonth = (year: number, month: number): number =>
+  new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+// Move a date by whole months, clamping the day to the end of shorter months
+const addMonths = (date: Date, months: number, day: number): Date => {
+  const result = new Date(date);
+  result.setUTCDate(1);
+  result.setUTCMonth(result.getUTCMonth() + months);
+  result.setUTCDate(Math.min(day, daysInMonth(result.getUTCFullYear(), result.getUTCMonth())));
+  return result;
+};
+
+// Start (Sunday) of the week containing the date
+const startOfWeek = (date: Date): number => {
+  const day = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+  return day - date.getUTCDay() * DAY_MS;
+};
+
+// The occurrence after `from`, keeping its time of day
+export const computeNextDueDate = (rule: IRecurrence, from: Date): Date => {
+  const interval = rule.interval || 1;
+
+  switch (rule.frequency) {
+    case RecurrenceFrequency.DAILY:
+      return new Date(from.getTime() + interval * DAY_MS);
+
+    case RecurrenceFrequency.WEEKLY: {
+      if (!rule.byWeekday || rule.byWeekday.length === 0) {
+        return new Date(from.getTime() + interval * 7 * DAY_MS);
+      }
+
+      // Next listed weekday, only in weeks that are a whole interval away from the current one
+      const baseWeek = startOfWeek(from);
+      for (let offset = 1; offset <= 7 * interval + 7; offset++) {
+        const candidate = new Date(from.getTime() + offset * DAY_MS);
+        const weeksApart = Math.round((startOfWeek(candidate) - baseWeek) / (7 * DAY_MS));
+        if (weeksApart % interval === 0 && rule.byWeekday.includes(candidate.getUTCDay())) {
+          return candidate;
+        }
+      }
+      return new Date(from.getTime() + interval * 7 * DAY_MS);
+    }
+
+    case RecurrenceFrequency.MONTHLY:
+      return addMonths(from, interval, rule.byMonthDay || from.getUTCDate());
+
+    case RecurrenceFrequency.YEARLY:
+      return addMonths(from, interval * 12, from.getUTCDate());
+
+    default:
+      throw new Error(`Unknown recurrence frequency: ${rule.frequency}`);
+  }
+};
+
+// Whether the series allows an occurrence with the given number and due date
+const withinSeries = (rule: IRecurrence, occurrence: number, dueDate: Date): boolean => {
+  if (rule.count && occurrence > rule.count) {
+    return false;
+  }
+  if (rule.until && dueDate > rule.until) {
+    return false;
+  }
+  return true;
+};
+
+// Create the next occurrence of a recurring task, at most once per occurrence
+export const spawnNextOccurrence = async (
+  task: ITask,
+  actorId: mongoose.Types.ObjectId
+): Promise<ITask | null> => {
+  const rule = task.recurrence;
+  if (!rule || task.nextOccurrence) {
+    return null;
+  }
+
+  // Skip occurrences that are already in the past so the new task is due in the future
+  const now = new Date();
+  let occurrence = (rule.occurrence || 1) + 1;
+  let dueDate = computeNextDueDate(rule, task.dueDate || task.createdAt);
+  while (dueDate <= now) {
+    occurrence += 1;
+    dueDate = computeNextDueDate(rule, dueDate);
+  }
+
+  if (!withinSeries(rule, occurrence, dueDate)) {
+    return null;
+  }
+
+  // Claim the slot first so concurrent completions cannot create duplicates
+  const nextId = new mongoose.Types.ObjectId();
+  const claimed = await Task.findOneAndUpdate(
+    { _id: task._id, nextOccurrence: null },
+    { nextOccurrence: nextId }
+  );
+  if (!claimed) {
+    return null;
+  }
+
+  const next = new Task({
+    _id: nextId,
+    title: task.title,
+    description: task.description,
+    priority: task.priority,
+    dueDate,
+    tags: task.tags,
+    estimate: task.estimate,
+    assignedTo: task.assignedTo?._id || null,
+    assignees: task.assignees,
+    watchers: task.watchers,
+    team: task.team?._id || null,
+    createdBy: task.createdBy._id,
+    project: task.project?._id || null,
+    parent: task.parent?._id || null,
+    recurrence: {
+      frequency: rule.frequency,
+      interval: rule.interval,
+      byWeekday: rule.byWeekday,
+      byMonthDay: rule.byMonthDay,
+      until: rule.until,
+      count: rule.count,
+      occurrence,
+    },
+    recurrenceOf: task.recurrenceOf || task._id,
+  });
+
+  try {
+    await next.save();
+  } catch (error) {
+    // Release the claim so a later completion or sweep can try again
+    await Task.updateOne({ _id: task._id, nextOccurrence: nextId }, { nextOccurrence: null });
+    throw error;
+  }
+  await recordTaskCreated(next, actorId);
+
+  logger.info(`Created occurrence ${occurrence} of recurring task ${next.recurrenceOf}`);
+  return next;
+};
+
+// Generate the next occurrence for recurring tasks whose due date has passed
+export const generateDueOccurrences = async (): Promise<number> => {
+  const dueTasks = await Task.find({
+    recurrence: { $ne: null },
+    nextOccurrence: null,
+    dueDate: { $lte: new Date() },
+    status: { $ne: TaskStatus.CANCELLED },
+  });
+
+  let created = 0;
+  for (const task of dueTasks) {
+    try {
+      if (await spawnNextOccurrence(task, task.createdBy)) {
+        created += 1;
+      }
+    } catch (error) {
+      logger.error(`Failed to create next occurrence of task ${task._id}:`, error);
+    }
+  }
+
+  return created;
+};
@@ -0,0 +1,92 @@
+import mongoose from 'mongoose';
+import { Task, TaskStatus } from '../models/Task';
+import { TaskActivity } from '../models/TaskActivity';
+import { ISprint } from '../models/Sprint';
+import { buildSprintDays, toBurndown } from './sprintReports';
+
+jest.mock('../models/Task', () => ({
+  ...jest.requireActual('../models/Task'),
+  Task: { find: jest.fn() },
+}));
+
+jest.mock('../models/TaskActivity', () => ({
+  TaskActivity: { aggregate: jest.fn() },
+}));
+
+const id = () => new mongoose.Types.ObjectId();
+const at = (date: string) => new Date(date);
+
+describe('sprint day series', () => {
+  const sprint = {
+    _id: id(),
+    startDate: at('2025-01-06T00:00:00.000Z'),
+    endDate: at('2025-01-10T00:00:00.000Z'),
+  } as ISprint;
+  const now = at('2025-01-08T12:00:00.000Z');
+
+  // In the sprint since before it started, without recorded history; done on day two
+  const finished = {
+    _id: id(),
+    sprint: sprint._id,
+    status: TaskStatus.COMPLETED,
+    completedAt: at('2025-01-07T10:00:00.000Z'),
+    estimate: 60,
+    createdAt: at('2025-01-01T00:00:00.000Z'),
+  };
+  // Added on day two
+  const added = {
+    _id: id(),
+    sprint: sprint._id,
+    status: TaskStatus.PENDING,
+    completedAt: null,
+    estimate: 30,
+    createdAt: at('2025-01-01T00:00:00.000Z'),
+  };
+  // Moved out of the sprint on day three
+  const removed = {
+    _id: id(),
+    sprint: null,
+    status: TaskStatus.PENDING,
+    completedAt: null,
+    estimate: null,
+    createdAt: at('2025-01-01T00:00:00.000Z'),
+  };
+  // Cancelled tasks never count
+  const cancelled = {
+    _id: id(),
+    sprint: sprint._id,
+    status: TaskStatus.CANCELLED,
+    completedAt: null,
+    estimate: 120,
+    createdAt: at('2025-01-01T00:00:00.000Z'),
+  };
+
+  beforeEach(() => {
+    (TaskActivity.aggregate as jest.Mock).mockResolvedValue([
+      { task: removed._id, createdAt: at('2025-01-05T09:00:00.000Z'), joined: true },
+      { task: added._id, createdAt: at('2025-01-07T09:00:00.000Z'), joined: true },
+      { task: removed._id, createdAt: at('2025-01-08T08:00:00.000Z'), joined: false },
+    ]);
+    (Task.find as jest.Mock).mockReturnValue({
+      select: jest.fn().mockResolvedValue([finished, added, removed, cancelled]),
+    });
+  });
+
+  it('counts scope and completed work at the end of each day, and leaves future days empty', async () => {
+    expect(await buildSprintDays(sprint, now)).toEqual([
+      { date: '2025-01-06', scope: 2, completed: 0, scopeEstimate: 60, completedEstimate: 0 },
+      { date: '2025-01-07', scope: 3, completed: 1, scopeEstimate: 90, completedEstimate: 60 },
+      { date: '2025-01-08', scope: 2, completed: 1, scopeEstimate: 90, completedEstimate: 60 },
+      { date: '2025-01-09', scope: null, completed: null, scopeEstimate: null, completedEstimate: null },
+      { date: '2025-01-10', scope: null, completed: null, scopeEstimate: null, completedEstimate: null },
+    ]);
+  });
+
+  it('draws the ideal line from the first day\'s scope down to zero', async () => {
+    const burndown = toBurndown(await buildSprintDays(sprint, now));
+
+    expect(burndown.map(point => point.ideal)).toEqual([2, 1.5, 1, 0.5, 0]);
+    expect(burndown.map(point => point.remaining)).toEqual([2, 2, 1, null, null]);
+    expect(burndown.map(point => point.remainingEstimate)).toEqual([60, 30, 30, null, null]);
+  });
+});
@@ -0,0 +1,220 @@
+import mongoose from 'mongoose';
+import { Task, TaskStatus } from '../models/Task';
+import { TaskActivity } from '../models/TaskActivity';
+import { ISprint } from '../models/Sprint';
+
+export interface SprintCompletion {
+  totalTasks: number;
+  completedTasks: number;
+  cancelledTasks: number;
+  percentage: number;
+  estimatedMinutes: number;
+  completedEstimatedMinutes: number;
+  estimatePercentage: number | null;
+}
+
+// Scope and progress at the end of one day; null for days that have not ended yet
+export interface SprintDay {
+  date: string;
+  scope: number | null;
+  completed: number | null;
+  scopeEstimate: number | null;
+  completedEstimate: number | null;
+}
+
+export interface BurndownPoint {
+  date: string;
+  remaining: number | null;
+  remainingEstimate: number | null;
+  ideal: number;
+}
+
+export interface BurnupPoint {
+  date: string;
+  scope: number | null;
+  completed: number | null;
+  scopeEstimate: number | null;
+  completedEstimate: number | null;
+}
+
+export const MAX_SPRINT_DAYS = 366;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const startOfUtcDay = (date: Date): number =>
+  Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+
+const percentage = (part: number, total: number): number =>
+  total ? Math.round((part / total) * 1000) / 10 : 0;
+
+// Completion of the tasks currently in the sprint; cancelled tasks are out of scope
+export const buildSprintCompletion = async (sprintId: mongoose.Types.ObjectId): Promise<SprintCompletion> => {
+  const [totals] = await Task.aggregate([
+    { $match: { sprint: sprintId } },
+    {
+      $group: {
+        _id: null,
+        cancelledTasks: { $sum: { $cond: [{ $eq: ['$status', TaskStatus.CANCELLED] }, 1, 0] } },
+        totalTasks: { $sum: { $cond: [{ $ne: ['$status', TaskStatus.CANCELLED] }, 1, 0] } },
+        completedTasks: { $sum: { $cond: [{ $eq: ['$status', TaskStatus.COMPLETED] }, 1, 0] } },
+        estimatedMinutes: {
+          $sum: { $cond: [{ $ne: ['$status', TaskStatus.CANCELLED] }, { $ifNull: ['$estimate', 0] }, 0] },
+        },
+        completedEstimatedMinutes: {
+          $sum: { $cond: [{ $eq: ['$status', TaskStatus.COMPLETED] }, { $ifNull: ['$estimate', 0] }, 0] },
+        },
+      },
+    },
+  ]);
+
+  const {
+    totalTasks = 0,
+    completedTasks = 0,
+    cancelledTasks = 0,
+    estimatedMinutes = 0,
+    completedEstimatedMinutes = 0,
+  } = totals || {};
+
+  return {
+    totalTasks,
+    completedTasks,
+    cancelledTasks,
+    percentage: percentage(completedTasks, totalTasks),
+    estimatedMinutes,
+    completedEstimatedMinutes,
+    estimatePercentage: estimatedMinutes ? percentage(completedEstimatedMinutes, estimatedMinutes) : null,
+  };
+};
+
+interface Membership {
+  // Times the task joined (true) or left (false) the sprint, oldest first
+  events: Array<{ at: number; joined: boolean }>;
+  completedAt: number | null;
+  estimate: number;
+  cancelled: boolean;
+}
+
+// Whether the task was in the sprint at the given time
+const isMember = (membership: Membership, at: number): boolean => {
+  let member = false;
+  for (const event of membership.events) {
+    if (event.at >= at) {
+      break;
+    }
+    member = event.joined;
+  }
+  return member;
+};
+
+// When each task joined and left the sprint, from task history plus the tasks' current state
+const loadMemberships = async (sprintId: mongoose.Types.ObjectId): Promise<Map<string, Membership>> => {
+  const id = sprintId.toString();
+
+  // History stores references as strings; each branch is covered by an index on the changes
+  const changes = await TaskActivity.aggregate([
+    {
+      $match: {
+        $or: [
+          { changes: { $elemMatch: { field: 'sprint', to: id } } },
+          { changes: { $elemMatch: { field: 'sprint', from: id } } },
+        ],
+      },
+    },
+    { $unwind: '$changes' },
+    { $match: { 'changes.field': 'sprint' } },
+    { $project: { task: 1, createdAt: 1, joined: { $eq: ['$changes.to', id] } } },
+    { $sort: { createdAt: 1 } },
+  ]);
+
+  const tasks = await Task.find({
+    $or: [{ sprint: sprintId }, { _id: { $in: changes.map(change => change.task) } }],
+  }).select('sprint status completedAt estimate createdAt');
+
+  const memberships = new Map<string, Membership>();
+
+  // Deleted tasks only appear in the history and count towards scope while they existed
+  for (const change of changes) {
+    const key = change.task.toString();
+    if (!memberships.has(key)) {
+      memberships.set(key, { events: [], completedAt: null, estimate: 0, cancelled: false });
+    }
+    memberships.get(key)!.events.push({ at: change.createdAt.getTime(), joined: change.joined });
+  }
+
+  for (const task of tasks) {
+    const key = task._id.toString();
+    const membership = memberships.get(key) || { events: [], completedAt: null, estimate: 0, cancelled: false };
+
+    // Tasks in the sprint without any recorded history are treated as members since their creation
+    if (membership.events.length === 0 && task.sprint?.equals(sprintId)) {
+      membership.events.push({ at: task.createdAt.getTime(), joined: true });
+    }
+
+    membership.completedAt = task.status === TaskStatus.COMPLETED && task.completedAt
+      ? task.completedAt.getTime()
+      : null;
+    membership.estimate = task.estimate || 0;
+    membership.cancelled = task.status === TaskStatus.CANCELLED;
+    memberships.set(key, membership);
+  }
+
+  return memberships;
+};
+
+// Scope and completed work at the end of every day of the sprint
+export const buildSprintDays = async (sprint: ISprint, now: Date = new Date()): Promise<SprintDay[]> => {
+  const memberships = Array.from((await loadMemberships(sprint._id)).values())
+    .filter(membership => !membership.cancelled);
+
+  const first = startOfUtcDay(sprint.startDate);
+  const last = startOfUtcDay(sprint.endDate);
+  const days: SprintDay[] = [];
+
+  for (let day = first; day <= last; day += MS_PER_DAY) {
+    const date = new Date(day).toISOString().slice(0, 10);
+    const endOfDay = day + MS_PER_DAY;
+
+    if (day > now.getTime()) {
+      days.push({ date, scope: null, completed: null, scopeEstimate: null, completedEstimate: null });
+      continue;
+    }
+
+    // Today's figures are as of now
+    const at = Math.min(endOfDay, now.getTime());
+    const inScope = memberships.filter(membership => isMember(membership, at));
+    const done = inScope.filter(membership => membership.completedAt !== null && membership.completedAt < at);
+
+    days.push({
+      date,
+      scope: inScope.length,
+      completed: done.length,
+      scopeEstimate: inScope.reduce((sum, membership) => sum + membership.estimate, 0),
+      completedEstimate: done.reduce((sum, membership) => sum + membership.estimate, 0),
+    });
+  }
+
+  return days;
+};
+
+// Remaining work per day against an ideal line from the first day's scope down to zero
+export const toBurndown = (days: SprintDay[]): BurndownPoint[] => {
+  const initial = days[0]?.scope ?? 0;
+  const steps = Math.max(days.length - 1, 1);
+
+  return days.map((day, index) => ({
+    date: day.date,
+    remaining: day.scope === null ? null : day.scope - day.completed!,
+    remainingEstimate: day.scopeEstimate === null ? null : day.scopeEstimate - day.completedEstimate!,
+    ideal: Math.round((initial * (1 - index / steps)) * 10) / 10,
+  }));
+};
+
+// Total scope and completed work per day
+export const toBurnup = (days: SprintDay[]): BurnupPoint[] =>
+  days.map(day => ({
+    date: day.date,
+    scope: day.scope,
+    completed: day.completed,
+    scopeEstimate: day.scopeEstimate,
+    completedEstimate: day.completedEstimate,
+  }));
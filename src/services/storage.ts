@@ -0,0 +1,69 @@
+import fs from 'fs';
+import fsp from 'fs/promises';
+import path from 'path';
+import { Readable } from 'stream';
+
+// Backend-agnostic file storage; keys are relative, slash-separated paths
+export interface StorageDriver {
+  put(key: string, data: Buffer): Promise<void>;
+  getStream(key: string): Promise<Readable>;
+  delete(key: string): Promise<void>;
+}
+
+// Stores files under a directory on the local filesystem
+export class LocalStorageDriver implements StorageDriver {
+  private root: string;
+
+  constructor(root: string) {
+    this.root = path.resolve(root);
+  }
+
+  // Resolve a key inside the root, refusing keys that would escape it
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.root, key);
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await fsp.mkdir(path.dirname(filePath), { recursive: true });
+    await fsp.writeFile(filePath, data);
+  }
+
+  async getStream(key: string): Promise<Readable> {
+    const filePath = this.resolve(key);
+    await fsp.access(filePath);
+    return fs.createReadStream(filePath);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fsp.rm(this.resolve(key), { force: true });
+  }
+}
+
+const createStorageDriver = (): StorageDriver => {
+  const type = process.env.STORAGE_DRIVER || 'local';
+
+  switch (type) {
+    case 'local':
+      return new LocalStorageDriver(process.env.STORAGE_LOCAL_DIR || 'uploads');
+    default:
+      throw new Error(`Unknown storage driver: ${type}`);
+  }
+};
+
+let driver: StorageDriver | null = null;
+
+export const getStorageDriver = (): StorageDriver => {
+  if (!driver) {
+    driver = createStorageDriver();
+  }
+  return driver;
+};
+
+export const setStorageDriver = (storageDriver: StorageDriver): void => {
+  driver = storageDriver;
+};
@@ -0,0 +1,214 @@
+import mongoose from 'mongoose';
+import { IUser, UserRole } from '../models/User';
+import { Project, IProject, ProjectRole } from '../models/Project';
+import { Team, ITeam } from '../models/Team';
+import { Sprint, ISprint } from '../models/Sprint';
+import { Task, ITask } from '../models/Task';
+import { AppError } from '../utils/AppError';
+
+// Admins and managers oversee work across the whole team
+export const canManageAllTasks = (user: IUser): boolean =>
+  user.role === UserRole.ADMIN || user.role === UserRole.MANAGER;
+
+// IDs of the projects the user belongs to, optionally limited to some project roles
+export const getUserProjectIds = async (
+  userId: mongoose.Types.ObjectId,
+  roles?: ProjectRole[]
+): Promise<mongoose.Types.ObjectId[]> => {
+  const filter = roles
+    ? { members: { $elemMatch: { user: userId, role: { $in: roles } } } }
+    : { 'members.user': userId };
+
+  return Project.find(filter).distinct('_id');
+};
+
+// Tasks the user is assigned to, as primary assignee or co-assignee
+export const assigneeFilter = (userId: mongoose.Types.ObjectId): any => ({
+  $or: [
+    { assignedTo: userId },
+    { assignees: userId },
+  ],
+});
+
+// IDs of the teams the user belongs to
+export const getUserTeamIds = async (userId: mongoose.Types.ObjectId): Promise<mongoose.Types.ObjectId[]> =>
+  Team.find({ 'members.user': userId }).distinct('_id');
+
+// Tasks the user takes part in: assigned to them, created by them, in one of their projects or team queues
+export const memberTaskFilter = async (user: IUser, projectRoles?: ProjectRole[]): Promise<any> => {
+  const projectIds = await getUserProjectIds(user._id, projectRoles);
+  const teamIds = await getUserTeamIds(user._id);
+
+  return {
+    $or: [
+      { assignedTo: user._id },
+      { assignees: user._id },
+      { createdBy: user._id },
+      { project: { $in: projectIds } },
+      { team: { $in: teamIds } },
+    ],
+  };
+};
+
+// Tasks the user takes part in or watches; watching grants read access only
+export const participantTaskFilter = async (user: IUser): Promise<any> => {
+  const { $or } = await memberTaskFilter(user);
+
+  return {
+    $or: [...$or, { watchers: user._id }],
+  };
+};
+
+// Tasks the user may view
+export const taskVisibilityFilter = async (user: IUser): Promise<any> => {
+  if (canManageAllTasks(user)) {
+    return {};
+  }
+
+  return participantTaskFilter(user);
+};
+
+// Tasks the user may edit (project viewers are read-only)
+export const taskEditFilter = async (user: IUser): Promise<any> => {
+  if (canManageAllTasks(user)) {
+    return {};
+  }
+
+  return memberTaskFilter(user, [ProjectRole.OWNER, ProjectRole.MANAGER, ProjectRole.MEMBER]);
+};
+
+// Tasks the user may delete: their own, or any in a project they own or manage
+export const taskDeleteFilter = async (user: IUser): Promise<any> => {
+  if (user.role === UserRole.ADMIN) {
+    return {};
+  }
+
+  const projectIds = await getUserProjectIds(user._id, [ProjectRole.OWNER, ProjectRole.MANAGER]);
+
+  return {
+    $or: [
+      { createdBy: user._id },
+      { project: { $in: projectIds } },
+    ],
+  };
+};
+
+// Load a task if the user may view it, otherwise null
+export const findVisibleTask = async (
+  user: IUser,
+  taskId: string
+): Promise<ITask | null> => {
+  return Task.findOne({
+    _id: taskId,
+    ...(await taskVisibilityFilter(user)),
+  });
+};
+
+// Take a user off the tasks of a project or team they left: watching and sharing a task grant access to it,
+// so both go unless another membership still covers the task
+export const removeTaskParticipant = async (
+  userId: mongoose.Types.ObjectId | string,
+  left: { project: mongoose.Types.ObjectId } | { team: mongoose.Types.ObjectId }
+): Promise<void> => {
+  const id = new mongoose.Types.ObjectId(userId.toString());
+
+  const filter = 'project' in left
+    ? { project: left.project, team: { $nin: await getUserTeamIds(id) } }
+    : { team: left.team, project: { $nin: await getUserProjectIds(id) } };
+
+  await Task.updateMany(filter, { $pull: { watchers: id, assignees: id } });
+};
+
+export interface UserMemberships {
+  projectIds: mongoose.Types.ObjectId[];
+  teamIds: mongoose.Types.ObjectId[];
+}
+
+export const getUserMemberships = async (userId: mongoose.Types.ObjectId): Promise<UserMemberships> => ({
+  projectIds: await getUserProjectIds(userId),
+  teamIds: await getUserTeamIds(userId),
+});
+
+// Whether the user is on the task itself: assignee, co-assignee, creator or watcher
+const isTaskParticipant = (user: IUser, task: ITask): boolean => {
+  if (task.assignedTo?._id.equals(user._id) || task.createdBy._id.equals(user._id)) {
+    return true;
+  }
+
+  const involved = [...(task.assignees || []), ...(task.watchers || [])];
+  return involved.some(userId => userId._id.equals(user._id));
+};
+
+// canViewTask against project and team memberships that were loaded up front
+export const canViewTaskWith = (user: IUser, task: ITask, memberships: UserMemberships): boolean => {
+  if (canManageAllTasks(user) || isTaskParticipant(user, task)) {
+    return true;
+  }
+
+  if (task.project && memberships.projectIds.some(projectId => projectId.equals(task.project?._id))) {
+    return true;
+  }
+
+  return !!task.team && memberships.teamIds.some(teamId => teamId.equals(task.team?._id));
+};
+
+// In-memory equivalent of taskVisibilityFilter for a task that is already loaded (or deleted)
+export const canViewTask = async (user: IUser, task: ITask): Promise<boolean> => {
+  if (canManageAllTasks(user) || isTaskParticipant(user, task)) {
+    return true;
+  }
+
+  if (!task.project && !task.team) {
+    return false;
+  }
+
+  return canViewTaskWith(user, task, await getUserMemberships(user._id));
+};
+
+// Load a project the user may add or move tasks into (project viewers are read-only)
+export const findWritableProject = async (user: IUser, projectId: string): Promise<IProject> => {
+  const project = await Project.findById(projectId);
+  if (!project || project.isArchived) {
+    throw new AppError('Project not found', 404);
+  }
+
+  if (
+    !canManageAllTasks(user) &&
+    !project.hasRole(user._id, ProjectRole.OWNER, ProjectRole.MANAGER, ProjectRole.MEMBER)
+  ) {
+    throw new AppError('You are not allowed to add tasks to this project', 403);
+  }
+
+  return project;
+};
+
+// Load a team the user may queue tasks for: members, or admins and managers for any team
+export const findQueueTeam = async (user: IUser, teamId: string): Promise<ITeam> => {
+  const team = await Team.findById(teamId);
+  if (!team) {
+    throw new AppError('Team not found', 404);
+  }
+
+  if (!canManageAllTasks(user) && !team.getMemberRole(user._id)) {
+    throw new AppError('You are not allowed to add tasks to this team', 403);
+  }
+
+  return team;
+};
+
+// Load a sprint a task can join: sprints only take tasks of their own project
+export const findProjectSprint = async (
+  sprintId: string,
+  projectId?: mongoose.Types.ObjectId | string | null
+): Promise<ISprint> => {
+  const sprint = await Sprint.findById(sprintId);
+  if (!sprint) {
+    throw new AppError('Sprint not found', 404);
+  }
+
+  if (!projectId || !sprint.project.equals(projectId)) {
+    throw new AppError('Sprint does not belong to the task\'s project', 400);
+  }
+
+  return sprint;
+};
@@ -0,0 +1,70 @@
+import mongoose from 'mongoose';
+import { Task, RecurrenceFrequency } from '../models/Task';
+import { TaskActivity } from '../models/TaskActivity';
+import { publishTaskEvent } from './eventBus';
+import { recordTaskUpdated, snapshotTask } from './taskActivity';
+
+jest.mock('../models/TaskActivity', () => ({
+  ...jest.requireActual('../models/TaskActivity'),
+  TaskActivity: { create: jest.fn() },
+}));
+
+jest.mock('./eventBus', () => ({
+  publishTaskEvent: jest.fn(),
+}));
+
+const id = () => new mongoose.Types.ObjectId();
+
+const makeTask = () => new Task({ title: 'Triage inbox', createdBy: id(), dueDate: new Date('2025-01-15T09:00:00.000Z') });
+
+describe('recordTaskUpdated', () => {
+  const actor = id();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('records and announces a move to another team queue', async () => {
+    const task = makeTask();
+    const before = snapshotTask(task);
+    const team = id();
+    task.team = team;
+
+    await recordTaskUpdated(task, before, actor);
+
+    const changes = [{ field: 'team', from: null, to: team.toString() }];
+    expect(TaskActivity.create).toHaveBeenCalledWith(expect.objectContaining({ task: task._id, changes }));
+    expect(publishTaskEvent).toHaveBeenCalledWith(expect.objectContaining({ type: 'task.updated', changes }));
+  });
+
+  it('records recurrence and watcher changes', async () => {
+    const task = makeTask();
+    const before = snapshotTask(task);
+    const watcher = id();
+    task.set('recurrence', { frequency: RecurrenceFrequency.WEEKLY, byWeekday: [1] });
+    task.watchers.push(watcher);
+
+    await recordTaskUpdated(task, before, actor);
+
+    const [{ changes }] = (TaskActivity.create as jest.Mock).mock.calls[0];
+    expect(changes).toEqual([
+      { field: 'watchers', from: [], to: [watcher.toString()] },
+      {
+        field: 'recurrence',
+        from: null,
+        to: { frequency: 'weekly', interval: 1, byWeekday: [1], occurrence: 1 },
+      },
+    ]);
+  });
+
+  it('stays quiet when no tracked field changed', async () => {
+    const task = makeTask();
+    const before = snapshotTask(task);
+    task.overdueAt = new Date();
+
+    await recordTaskUpdated(task, before, actor);
+
+    expect(TaskActivity.create).not.toHaveBeenCalled();
+    expect(publishTaskEvent).not.toHaveBeenCalled();
+  });
+});
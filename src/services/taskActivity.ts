@@ -0,0 +1,136 @@
+import mongoose from 'mongoose';
+import { ITask, TaskStatus } from '../models/Task';
+import { TaskActivity, TaskActivityAction, ITaskFieldChange } from '../models/TaskActivity';
+import { logger } from '../utils/logger';
+import { publishTaskEvent, TaskEventType } from './eventBus';
+
+// Fields whose before/after values are kept in the history
+export const TRACKED_FIELDS = [
+  'title',
+  'description',
+  'status',
+  'priority',
+  'assignedTo',
+  'assignees',
+  'dueDate',
+  'estimate',
+  'tags',
+  'watchers',
+  'team',
+  'project',
+  'sprint',
+  'parent',
+  'blockedBy',
+  'recurrence',
+];
+
+// Reduce a field value to plain JSON so it can be compared and stored
+const normalize = (value: any): unknown => {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (value instanceof mongoose.Types.ObjectId) {
+    return value.toString();
+  }
+  if (Array.isArray(value)) {
+    return value.map(normalize);
+  }
+  // Populated references are stored by id
+  if (typeof value === 'object' && value._id) {
+    return value._id.toString();
+  }
+  // Subdocuments such as the recurrence rule are kept field by field
+  if (typeof value === 'object') {
+    const plain = typeof value.toObject === 'function' ? value.toObject() : value;
+    return Object.fromEntries(Object.entries(plain).map(([key, field]) => [key, normalize(field)]));
+  }
+  return value;
+};
+
+// Snapshot of the tracked fields of a task
+export const snapshotTask = (task: ITask): Record<string, unknown> =>
+  TRACKED_FIELDS.reduce((snapshot, field) => {
+    snapshot[field] = normalize(task.get(field));
+    return snapshot;
+  }, {} as Record<string, unknown>);
+
+// Field-level differences between two snapshots
+export const diffSnapshots = (
+  before: Record<string, unknown>,
+  after: Record<string, unknown>
+): ITaskFieldChange[] =>
+  TRACKED_FIELDS
+    .filter(field => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+    .map(field => ({ field, from: before[field], to: after[field] }));
+
+// Record an activity entry; history is best-effort and must not fail the request
+export const recordTaskActivity = async (
+  taskId: mongoose.Types.ObjectId,
+  actorId: mongoose.Types.ObjectId,
+  action: TaskActivityAction,
+  changes: ITaskFieldChange[]
+): Promise<void> => {
+  try {
+    await TaskActivity.create({ task: taskId, actor: actorId, action, changes });
+  } catch (error) {
+    logger.error('Failed to record task activity:', error);
+  }
+};
+
+const emptySnapshot = (): Record<string, unknown> =>
+  TRACKED_FIELDS.reduce((snapshot, field) => {
+    snapshot[field] = null;
+    return snapshot;
+  }, {} as Record<string, unknown>);
+
+// Publish task events for an activity entry
+const publishActivity = (
+  task: ITask,
+  actorId: mongoose.Types.ObjectId,
+  type: TaskEventType,
+  changes: ITaskFieldChange[]
+): void => {
+  const timestamp = new Date();
+  publishTaskEvent({ type, task, actorId, changes, timestamp });
+
+  // Assignment and completion are announced separately so subscribers need not inspect every update
+  if (type !== 'task.deleted' && changes.some(change => ['assignedTo', 'assignees'].includes(change.field))) {
+    publishTaskEvent({ type: 'task.assigned', task, actorId, changes, timestamp });
+  }
+
+  const completed = changes.some(
+    change => change.field === 'status' && change.to === TaskStatus.COMPLETED
+  );
+  if (type !== 'task.deleted' && completed) {
+    publishTaskEvent({ type: 'task.completed', task, actorId, changes, timestamp });
+  }
+};
+
+export const recordTaskCreated = async (task: ITask, actorId: mongoose.Types.ObjectId) => {
+  const changes = diffSnapshots(emptySnapshot(), snapshotTask(task));
+  await recordTaskActivity(task._id, actorId, TaskActivityAction.CREATED, changes);
+  publishActivity(task, actorId, 'task.created', changes);
+};
+
+export const recordTaskUpdated = async (
+  task: ITask,
+  before: Record<string, unknown>,
+  actorId: mongoose.Types.ObjectId
+) => {
+  const changes = diffSnapshots(before, snapshotTask(task));
+  // Saves that touched no tracked field leave nothing to record or announce
+  if (changes.length === 0) {
+    return;
+  }
+  await recordTaskActivity(task._id, actorId, TaskActivityAction.UPDATED, changes);
+  publishActivity(task, actorId, 'task.updated', changes);
+};
+
+export const recordTaskDeleted = async (task: ITask, actorId: mongoose.Types.ObjectId) => {
+  const changes = diffSnapshots(snapshotTask(task), emptySnapshot());
+  await recordTaskActivity(task._id, actorId, TaskActivityAction.DELETED, changes);
+  publishActivity(task, actorId, 'task.deleted', changes);
+};
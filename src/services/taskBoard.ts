@@ -0,0 +1,258 @@
+import mongoose, { ClientSession } from 'mongoose';
+import { Task, ITask, TaskStatus } from '../models/Task';
+import { Project, WipLimits } from '../models/Project';
+import { AppError } from '../utils/AppError';
+import { rankBetween, rankAfter, rankForTime } from '../utils/rank';
+
+export interface BoardColumn {
+  status: TaskStatus;
+  tasks: ITask[];
+  total: number;
+  wipLimit: number | null;
+}
+
+export interface BoardPlacement {
+  // Place the task directly after or before this task in the target column
+  after?: string;
+  before?: string;
+}
+
+// Column order on the board
+export const BOARD_COLUMNS = Object.values(TaskStatus);
+
+const BOARD_ORDER: Record<string, 1 | -1> = { rank: 1, createdAt: 1, _id: 1 };
+
+// Tasks matching the filter, grouped into status columns in board order
+export const buildBoard = async (
+  filter: any,
+  statuses: TaskStatus[],
+  limitPerColumn: number,
+  wipLimits: WipLimits = {}
+): Promise<BoardColumn[]> =>
+  Promise.all(statuses.map(async status => {
+    const columnFilter = { $and: [filter, { status }] };
+
+    const [tasks, total] = await Promise.all([
+      Task.find(columnFilter)
+        .sort(BOARD_ORDER)
+        .limit(limitPerColumn)
+        .populate('assignedTo', 'username email firstName lastName')
+        .populate('assignees', 'username email firstName lastName'),
+      Task.countDocuments(columnFilter),
+    ]);
+
+    return { status, tasks, total, wipLimit: wipLimits[status] ?? null };
+  }));
+
+export interface WipLimitOptions {
+  session?: ClientSession;
+  // Leases taken for a transaction are kept until releaseWipLeases, after it has committed or aborted
+  leases?: WipLeaseHolder;
+}
+
+export interface WipLeaseHolder {
+  token: mongoose.Types.ObjectId;
+  held: Array<{ project: mongoose.Types.ObjectId; status: TaskStatus }>;
+}
+
+// How long a lease protects a column, and how long a move waits for one before giving up
+const WIP_LEASE_MS = 10 * 1000;
+const WIP_LEASE_WAIT_MS = 5 * 1000;
+const WIP_LEASE_RETRY_MS = 50;
+
+export const createWipLeaseHolder = (): WipLeaseHolder => ({
+  token: new mongoose.Types.ObjectId(),
+  held: [],
+});
+
+// Take the lease on a project's column; the holder of a lease can take it again
+const acquireWipLease = async (
+  projectId: mongoose.Types.ObjectId,
+  status: TaskStatus,
+  token: mongoose.Types.ObjectId
+): Promise<boolean> => {
+  const key = `wipLeases.${status}`;
+  const deadline = Date.now() + WIP_LEASE_WAIT_MS;
+
+  for (;;) {
+    const now = new Date();
+    const result = await Project.collection.updateOne(
+      {
+        _id: projectId,
+        $or: [
+          { [key]: null },
+          { [`${key}.expiresAt`]: { $lte: now } },
+          { [`${key}.token`]: token },
+        ],
+      },
+      { $set: { [key]: { token, expiresAt: new Date(now.getTime() + WIP_LEASE_MS) } } }
+    );
+
+    if (result.matchedCount) {
+      return true;
+    }
+    if (Date.now() >= deadline) {
+      return false;
+    }
+    await new Promise(resolve => setTimeout(resolve, WIP_LEASE_RETRY_MS));
+  }
+};
+
+const releaseWipLease = async (
+  projectId: mongoose.Types.ObjectId,
+  status: TaskStatus,
+  token: mongoose.Types.ObjectId
+): Promise<void> => {
+  const key = `wipLeases.${status}`;
+  await Project.collection.updateOne({ _id: projectId, [`${key}.token`]: token }, { $unset: { [key]: '' } });
+};
+
+export const releaseWipLeases = async (leases: WipLeaseHolder): Promise<void> => {
+  for (const { project, status } of leases.held) {
+    await releaseWipLease(project, status, leases.token);
+  }
+  leases.held = [];
+};
+
+// Move a project task into a column only if that keeps the column within its WIP limit. Counting and
+// writing happen under a lease on the column, so concurrent moves cannot both take the last place.
+export const withWipLimit = async <T>(
+  task: ITask,
+  status: TaskStatus,
+  write: () => Promise<T>,
+  options: WipLimitOptions = {}
+): Promise<T> => {
+  if (!task.project || task.status === status) {
+    return write();
+  }
+
+  const project = await Project.findById(task.project).select('wipLimits');
+  const limit = project?.wipLimits?.[status];
+  if (limit == null) {
+    return write();
+  }
+
+  const token = options.leases?.token || new mongoose.Types.ObjectId();
+  if (!(await acquireWipLease(task.project, status, token))) {
+    throw new AppError(`Other tasks are being moved into the ${status} column; try again`, 409);
+  }
+  options.leases?.held.push({ project: task.project, status });
+
+  try {
+    const count = await Task.countDocuments(
+      { project: task.project, status, _id: { $ne: task._id } },
+      { session: options.session }
+    );
+    if (count >= limit) {
+      throw new AppError(`The ${status} column of this project is limited to ${limit} tasks`, 409);
+    }
+
+    return await write();
+  } finally {
+    if (!options.leases) {
+      await releaseWipLease(task.project, status, token);
+    }
+  }
+};
+
+const findNeighbour = async (
+  taskId: string,
+  status: TaskStatus,
+  visibilityFilter: any
+): Promise<ITask & { rank: string }> => {
+  const neighbour = await Task.findOne({ _id: taskId, ...visibilityFilter }).select('status rank');
+  if (!neighbour) {
+    throw new AppError('Neighbouring task not found', 404);
+  }
+  if (neighbour.status !== status) {
+    throw new AppError('The neighbouring task is not in the target column', 400);
+  }
+  if (!neighbour.rank) {
+    throw new AppError('The board is still being ordered; try again shortly', 409);
+  }
+  return neighbour as ITask & { rank: string };
+};
+
+// Rank for a task dropped into a column after or before a neighbour the user can see, or at the bottom
+export const rankForPlacement = async (
+  taskId: mongoose.Types.ObjectId,
+  status: TaskStatus,
+  placement: BoardPlacement,
+  visibilityFilter: any
+): Promise<string> => {
+  const others = { status, _id: { $ne: taskId } };
+
+  if (placement.after) {
+    const after = await findNeighbour(placement.after, status, visibilityFilter);
+    const next = await Task.findOne({ ...others, rank: { $gt: after.rank } }).sort({ rank: 1 }).select('rank');
+    return next?.rank ? rankBetween(after.rank, next.rank) : rankAfter(after.rank);
+  }
+
+  if (placement.before) {
+    const before = await findNeighbour(placement.before, status, visibilityFilter);
+    const previous = await Task.findOne({ ...others, rank: { $lt: before.rank, $ne: null } })
+      .sort({ rank: -1 })
+      .select('rank');
+    return rankBetween(previous?.rank || null, before.rank);
+  }
+
+  const last = await Task.findOne({ ...others, rank: { $ne: null } }).sort({ rank: -1 }).select('rank');
+  return rankAfter(last?.rank || null);
+};
+
+// Ranks grow when cards are repeatedly dropped into the same spot; past this length a column is re-ranked
+const MAX_RANK_LENGTH = parseInt(process.env.BOARD_MAX_RANK_LENGTH || '40', 10);
+
+const REBALANCE_BATCH_SIZE = 500;
+
+// Spread a column's ranks evenly below the current time, keeping the order of its cards
+const rebalanceColumn = async (status: TaskStatus): Promise<number> => {
+  const total = await Task.countDocuments({ status, rank: { $ne: null } });
+  const now = Date.now();
+  let position = 0;
+  let batch: any[] = [];
+
+  const tasks = Task.find({ status, rank: { $ne: null } }).sort(BOARD_ORDER).select('_id').cursor();
+  for await (const task of tasks) {
+    position++;
+    const rank = rankForTime(new Date(Math.floor((now * position) / (total + 1))));
+    batch.push({ updateOne: { filter: { _id: task._id, status }, update: { $set: { rank } } } });
+
+    if (batch.length === REBALANCE_BATCH_SIZE) {
+      await Task.collection.bulkWrite(batch, { ordered: false });
+      batch = [];
+    }
+  }
+
+  if (batch.length) {
+    await Task.collection.bulkWrite(batch, { ordered: false });
+  }
+
+  return position;
+};
+
+// Rank tasks created before board ordering existed by their creation time, and re-rank columns whose ranks got too long
+export const maintainBoardRanks = async (): Promise<{ ranked: number; rebalanced: TaskStatus[] }> => {
+  let ranked = 0;
+
+  const unranked = Task.find({ rank: null }).select('createdAt').cursor();
+  for await (const task of unranked) {
+    // Skip tasks that were ranked in the meantime
+    const result = await Task.collection.updateOne(
+      { _id: task._id, rank: null },
+      { $set: { rank: rankForTime(task.createdAt) } }
+    );
+    ranked += result.modifiedCount;
+  }
+
+  const rebalanced: TaskStatus[] = [];
+  for (const status of BOARD_COLUMNS) {
+    const long = await Task.exists({ status, rank: { $regex: `^.{${MAX_RANK_LENGTH + 1}}` } });
+    if (long) {
+      await rebalanceColumn(status);
+      rebalanced.push(status);
+    }
+  }
+
+  return { ranked, rebalanced };
+};
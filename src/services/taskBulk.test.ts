@@ -0,0 +1,54 @@
+import mongoose from 'mongoose';
+import { Task, TaskPriority } from '../models/Task';
+import { User } from '../models/User';
+import { AppError } from '../utils/AppError';
+import { taskEditFilter } from './taskAccess';
+import { runBulkTaskOperation } from './taskBulk';
+
+jest.mock('./taskAccess', () => ({
+  ...jest.requireActual('./taskAccess'),
+  taskEditFilter: jest.fn(),
+}));
+
+jest.mock('./taskActivity');
+jest.mock('./taskHierarchy');
+jest.mock('./recurrence');
+
+const user = new User({ username: 'editor', email: 'editor@example.com' });
+
+const makeTask = (title: string) =>
+  new Task({ title, createdBy: user._id, assignedTo: user._id, priority: TaskPriority.LOW });
+
+beforeEach(() => {
+  jest.restoreAllMocks();
+  (taskEditFilter as jest.Mock).mockResolvedValue({ editableBy: 'caller' });
+});
+
+describe('runBulkTaskOperation', () => {
+  it('reports unexpected errors per task instead of failing the whole run', async () => {
+    const saved = makeTask('Saved');
+    const broken = makeTask('Broken');
+    const refused = makeTask('Refused');
+
+    jest.spyOn(Task, 'find').mockResolvedValue([saved, broken, refused] as never);
+    jest.spyOn(saved, 'save').mockResolvedValue(saved);
+    jest.spyOn(broken, 'save').mockRejectedValue(new Error('connection reset'));
+    jest.spyOn(refused, 'save').mockRejectedValue(new AppError('Column is full', 409));
+
+    const missing = new mongoose.Types.ObjectId().toString();
+    const result = await runBulkTaskOperation(user, {
+      action: 'set-priority',
+      ids: [saved._id.toString(), broken._id.toString(), refused._id.toString(), missing],
+      priority: TaskPriority.HIGH,
+    });
+
+    // Earlier items are already committed, so the run still counts as committed
+    expect(result.committed).toBe(true);
+    expect(result.results).toEqual([
+      { id: missing, success: false, statusCode: 404, error: 'Task not found' },
+      { id: saved._id.toString(), success: true, changed: true },
+      { id: broken._id.toString(), success: false, statusCode: 500, error: 'Server Error' },
+      { id: refused._id.toString(), success: false, statusCode: 409, error: 'Column is full' },
+    ]);
+  });
+});
@@ -0,0 +1,400 @@
+import mongoose, { ClientSession } from 'mongoose';
+import { Task, ITask, TaskStatus, TaskPriority } from '../models/Task';
+import { User, IUser } from '../models/User';
+import { Project, IProject } from '../models/Project';
+import { Team, ITeam } from '../models/Team';
+import { Comment } from '../models/Comment';
+import { TimeEntry } from '../models/TimeEntry';
+import { AppError } from '../utils/AppError';
+import { logger } from '../utils/logger';
+import { taskEditFilter, taskDeleteFilter } from './taskAccess';
+import { TaskQuery, buildTaskFilter, buildTaskSort } from './taskQuery';
+import { assertTransition } from './taskWorkflow';
+import { snapshotTask, recordTaskUpdated, recordTaskDeleted } from './taskActivity';
+import { rollUpProgress } from './taskHierarchy';
+import { WipLeaseHolder, createWipLeaseHolder, releaseWipLeases, withWipLimit } from './taskBoard';
+import { spawnNextOccurrence } from './recurrence';
+import { removeTaskAttachments } from './attachments';
+
+export type BulkTaskAction =
+  | 'update-status'
+  | 'reassign'
+  | 'add-tags'
+  | 'remove-tags'
+  | 'set-priority'
+  | 'delete';
+
+export interface BulkTaskRequest {
+  action: BulkTaskAction;
+  ids?: string[];
+  filter?: TaskQuery;
+  status?: TaskStatus;
+  assignedTo?: string;
+  tags?: string[];
+  priority?: TaskPriority;
+  atomic?: boolean;
+}
+
+export interface BulkItemResult {
+  id: string;
+  success: boolean;
+  changed?: boolean;
+  statusCode?: number;
+  error?: string;
+}
+
+export interface BulkTaskResult {
+  committed: boolean;
+  results: BulkItemResult[];
+}
+
+export const MAX_BULK_TASKS = 500;
+
+// Side effects (history, events, roll-ups) that must wait until the change is committed
+type AfterCommit = () => Promise<void>;
+
+interface BulkContext {
+  user: IUser;
+  request: BulkTaskRequest;
+  // Loaded once up front for reassign
+  assignee: IUser | null;
+  projects: Map<string, IProject | null>;
+  teams: Map<string, ITeam | null>;
+  // Column leases held until the transaction of an all-or-nothing run has ended
+  leases?: WipLeaseHolder;
+}
+
+// Thrown inside a transaction to roll it back once every item has been tried
+class BulkAbortError extends Error {}
+
+const notFoundMessage = (action: BulkTaskAction): string =>
+  action === 'delete' ? 'Task not found or you are not authorized to delete it' : 'Task not found';
+
+// Expected per-item failures are reported; anything else is a real error
+const toFailure = (task: ITask, error: unknown): BulkItemResult => {
+  if (error instanceof AppError) {
+    return { id: task._id.toString(), success: false, statusCode: error.statusCode, error: error.message };
+  }
+  if (error instanceof mongoose.Error.ValidationError) {
+    return { id: task._id.toString(), success: false, statusCode: 400, error: error.message };
+  }
+  throw error;
+};
+
+// Items are committed one by one and cannot be rolled back, so unexpected errors are reported per item too
+const toReportedFailure = (task: ITask, error: unknown): BulkItemResult => {
+  if (error instanceof AppError || error instanceof mongoose.Error.ValidationError) {
+    return toFailure(task, error);
+  }
+  logger.error(`Bulk task operation failed for task ${task._id}:`, error);
+  return { id: task._id.toString(), success: false, statusCode: 500, error: 'Server Error' };
+};
+
+const isTransactionUnsupported = (error: any): boolean =>
+  error?.code === 20 || /Transaction numbers are only allowed/.test(error?.message || '');
+
+// Tasks the user may change, either by id or by filter; ids the user cannot change are reported as missing
+const findTargets = async (user: IUser, request: BulkTaskRequest): Promise<{ tasks: ITask[]; missing: string[] }> => {
+  const permissionFilter = request.action === 'delete'
+    ? await taskDeleteFilter(user)
+    : await taskEditFilter(user);
+
+  if (request.ids) {
+    const ids = Array.from(new Set(request.ids));
+    const found = await Task.find({ _id: { $in: ids }, ...permissionFilter });
+    const byId = new Map(found.map(task => [task._id.toString(), task]));
+
+    return {
+      tasks: ids.filter(id => byId.has(id)).map(id => byId.get(id)!),
+      missing: ids.filter(id => !byId.has(id)),
+    };
+  }
+
+  const filter = buildTaskFilter(request.filter || {}, user._id, permissionFilter);
+
+  const count = await Task.countDocuments(filter);
+  if (count > MAX_BULK_TASKS) {
+    throw new AppError(`Filter matches ${count} tasks; bulk operations are limited to ${MAX_BULK_TASKS}`, 400);
+  }
+
+  const sort: Record<string, 1 | -1> = {};
+  for (const [field, direction] of buildTaskSort(request.filter || {})) {
+    sort[field] = direction;
+  }
+
+  return { tasks: await Task.find(filter).sort(sort), missing: [] };
+};
+
+const findProject = async (context: BulkContext, projectId: mongoose.Types.ObjectId): Promise<IProject | null> => {
+  const key = projectId.toString();
+  if (!context.projects.has(key)) {
+    context.projects.set(key, await Project.findById(projectId));
+  }
+  return context.projects.get(key) || null;
+};
+
+const findTeam = async (context: BulkContext, teamId: mongoose.Types.ObjectId): Promise<ITeam | null> => {
+  const key = teamId.toString();
+  if (!context.teams.has(key)) {
+    context.teams.set(key, await Team.findById(teamId));
+  }
+  return context.teams.get(key) || null;
+};
+
+// Save a field change and queue the usual follow-up work; returns null when nothing changed
+const saveChange = async (
+  task: ITask,
+  context: BulkContext,
+  session: ClientSession | undefined,
+  change: () => void
+): Promise<AfterCommit | null> => {
+  const before = snapshotTask(task);
+  const wasCompleted = task.status === TaskStatus.COMPLETED;
+
+  change();
+  if (!task.isModified()) {
+    return null;
+  }
+
+  await task.save({ session });
+
+  return async () => {
+    await recordTaskUpdated(task, before, context.user._id);
+    await rollUpProgress(task._id);
+
+    // Completing an occurrence of a recurring task schedules the next one
+    if (task.status === TaskStatus.COMPLETED && !wasCompleted) {
+      await spawnNextOccurrence(task, context.user._id);
+    }
+  };
+};
+
+const deleteOne = async (
+  task: ITask,
+  context: BulkContext,
+  session: ClientSession | undefined
+): Promise<AfterCommit> => {
+  await Task.deleteOne({ _id: task._id }, { session });
+  await Comment.deleteMany({ task: task._id }, { session });
+  await TimeEntry.deleteMany({ task: task._id }, { session });
+
+  // Subtasks become top-level tasks and dependents are unblocked
+  await Task.updateMany({ parent: task._id }, { parent: null }, { session });
+  await Task.updateMany({ blockedBy: task._id }, { $pull: { blockedBy: task._id } }, { session });
+
+  // Stored files cannot be rolled back, so they are only removed after commit
+  return async () => {
+    await removeTaskAttachments(task._id);
+    await recordTaskDeleted(task, context.user._id);
+    await rollUpProgress(task.parent);
+  };
+};
+
+// Apply the requested action to one task with the same checks as the single-task endpoints
+const applyToTask = async (
+  task: ITask,
+  context: BulkContext,
+  session?: ClientSession
+): Promise<AfterCommit | null> => {
+  const { request, user } = context;
+
+  switch (request.action) {
+    case 'update-status': {
+      const status = request.status!;
+      if (task.status === status) {
+        return null;
+      }
+      await assertTransition(task, status, user);
+      return withWipLimit(
+        task,
+        status,
+        () => saveChange(task, context, session, () => {
+          task.status = status;
+        }),
+        { session, leases: context.leases }
+      );
+    }
+
+    case 'reassign': {
+      const { assignee } = context;
+      if (!assignee) {
+        throw new AppError('Assigned user not found', 404);
+      }
+      if (task.assignedTo?.equals(assignee._id)) {
+        return null;
+      }
+
+      // Team tasks can only be assigned to team members
+      if (task.team) {
+        const team = await findTeam(context, task.team);
+        if (team && !team.getMemberRole(assignee._id)) {
+          throw new AppError('Assigned user is not a member of this team', 400);
+        }
+      }
+
+      // Project tasks can only be assigned to project members
+      if (task.project) {
+        const project = await findProject(context, task.project);
+        if (project && !project.getMemberRole(assignee._id)) {
+          throw new AppError('Assigned user is not a member of this project', 400);
+        }
+      }
+
+      return saveChange(task, context, session, () => {
+        task.assignedTo = assignee._id;
+        // The new primary assignee is no longer a co-assignee as well
+        task.assignees = task.assignees.filter(userId => !userId.equals(assignee._id));
+      });
+    }
+
+    case 'add-tags':
+      return saveChange(task, context, session, () => {
+        const missing = request.tags!.filter(tag => !task.tags.includes(tag));
+        if (missing.length) {
+          task.tags = [...task.tags, ...missing];
+        }
+      });
+
+    case 'remove-tags':
+      return saveChange(task, context, session, () => {
+        if (task.tags.some(tag => request.tags!.includes(tag))) {
+          task.tags = task.tags.filter(tag => !request.tags!.includes(tag));
+        }
+      });
+
+    case 'set-priority':
+      return saveChange(task, context, session, () => {
+        task.priority = request.priority!;
+      });
+
+    case 'delete':
+      return deleteOne(task, context, session);
+  }
+};
+
+const runAfterCommit = async (work: AfterCommit[]): Promise<void> => {
+  for (const afterCommit of work) {
+    try {
+      await afterCommit();
+    } catch (error) {
+      logger.error('Bulk task follow-up failed:', error);
+    }
+  }
+};
+
+// Apply one action to many tasks, item by item or all-or-nothing inside a transaction
+export const runBulkTaskOperation = async (user: IUser, request: BulkTaskRequest): Promise<BulkTaskResult> => {
+  let assignee: IUser | null = null;
+  if (request.action === 'reassign') {
+    assignee = await User.findById(request.assignedTo);
+    if (!assignee || !assignee.isActive) {
+      throw new AppError('Assigned user not found', 404);
+    }
+  }
+
+  const context: BulkContext = { user, request, assignee, projects: new Map(), teams: new Map() };
+
+  const { tasks, missing } = await findTargets(user, request);
+
+  const missingResults: BulkItemResult[] = missing.map(id => ({
+    id,
+    success: false,
+    statusCode: 404,
+    error: notFoundMessage(request.action),
+  }));
+
+  if (!request.atomic) {
+    const results = [...missingResults];
+
+    for (const task of tasks) {
+      try {
+        const afterCommit = await applyToTask(task, context);
+        results.push({ id: task._id.toString(), success: true, changed: !!afterCommit });
+        if (afterCommit) {
+          await runAfterCommit([afterCommit]);
+        }
+      } catch (error) {
+        results.push(toReportedFailure(task, error));
+      }
+    }
+
+    return { committed: true, results };
+  }
+
+  // In all-or-nothing mode a single unknown task is enough to change nothing
+  if (missing.length) {
+    return {
+      committed: false,
+      results: [
+        ...missingResults,
+        ...tasks.map(task => ({
+          id: task._id.toString(),
+          success: false,
+          error: 'Not applied because other tasks failed',
+        })),
+      ],
+    };
+  }
+
+  let results: BulkItemResult[] = [];
+  let afterCommitWork: AfterCommit[] = [];
+  context.leases = createWipLeaseHolder();
+
+  try {
+    await mongoose.connection.transaction(async session => {
+      // The callback is retried on transient errors, so start from scratch each time, with the tasks as
+      // they are now rather than the documents changed by the aborted attempt
+      results = [];
+      afterCommitWork = [];
+
+      const fresh = await Task.find({ _id: { $in: tasks.map(task => task._id) } }).session(session);
+      const byId = new Map(fresh.map(task => [task._id.toString(), task]));
+
+      for (const target of tasks) {
+        const task = byId.get(target._id.toString());
+        if (!task) {
+          results.push({
+            id: target._id.toString(),
+            success: false,
+            statusCode: 404,
+            error: notFoundMessage(request.action),
+          });
+          continue;
+        }
+
+        try {
+          const afterCommit = await applyToTask(task, context, session);
+          results.push({ id: task._id.toString(), success: true, changed: !!afterCommit });
+          if (afterCommit) {
+            afterCommitWork.push(afterCommit);
+          }
+        } catch (error) {
+          results.push(toFailure(task, error));
+        }
+      }
+
+      if (results.some(result => !result.success)) {
+        throw new BulkAbortError();
+      }
+    });
+  } catch (error) {
+    if (error instanceof BulkAbortError) {
+      return {
+        committed: false,
+        results: results.map(result => result.success
+          ? { id: result.id, success: false, error: 'Rolled back because other tasks failed' }
+          : result),
+      };
+    }
+    if (isTransactionUnsupported(error)) {
+      throw new AppError('Atomic bulk operations require MongoDB to run as a replica set', 400);
+    }
+    throw error;
+  } finally {
+    await releaseWipLeases(context.leases);
+  }
+
+  await runAfterCommit(afterCommitWork);
+
+  return { committed: true, results };
+};
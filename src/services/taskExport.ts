@@ -0,0 +1,111 @@
+import { once } from 'events';
+import { Writable } from 'stream';
+import { ITask } from '../models/Task';
+import { IUser } from '../models/User';
+import { toCsvRow } from '../utils/csv';
+
+export type ExportFormat = 'csv' | 'json' | 'ndjson';
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  ndjson: 'application/x-ndjson; charset=utf-8',
+};
+
+// Column order of CSV exports; the same keys are used for JSON rows
+export const EXPORT_COLUMNS = [
+  'id',
+  'title',
+  'description',
+  'status',
+  'priority',
+  'dueDate',
+  'completedAt',
+  'tags',
+  'assignee',
+  'assigneeEmail',
+  'createdBy',
+  'project',
+  'createdAt',
+  'updatedAt',
+] as const;
+
+type ExportRow = Record<(typeof EXPORT_COLUMNS)[number], unknown>;
+
+// A task as loaded for export, with the users named in the file populated
+export type ExportTask = Omit<ITask, 'assignedTo' | 'createdBy'> & {
+  assignedTo: Pick<IUser, 'username' | 'email'> | null;
+  createdBy: Pick<IUser, 'username'> | null;
+};
+
+// Flatten a task into an export row
+const toExportRow = (task: ExportTask): ExportRow => {
+  const assignee = task.assignedTo;
+  const creator = task.createdBy;
+
+  return {
+    id: task._id.toString(),
+    title: task.title,
+    description: task.description ?? null,
+    status: task.status,
+    priority: task.priority,
+    dueDate: task.dueDate ?? null,
+    completedAt: task.completedAt ?? null,
+    tags: task.tags,
+    assignee: assignee?.username ?? null,
+    assigneeEmail: assignee?.email ?? null,
+    createdBy: creator?.username ?? null,
+    project: task.project?.toString() ?? null,
+    createdAt: task.createdAt,
+    updatedAt: task.updatedAt,
+  };
+};
+
+const formatRow = (row: ExportRow, format: ExportFormat): string => {
+  if (format === 'csv') {
+    return toCsvRow(EXPORT_COLUMNS.map(column =>
+      column === 'tags' ? (row.tags as string[]).join(', ') : row[column]
+    ));
+  }
+
+  return JSON.stringify(row);
+};
+
+// Write tasks to the stream one at a time, waiting whenever the client falls behind
+export const writeTaskExport = async (
+  tasks: AsyncIterable<ExportTask>,
+  format: ExportFormat,
+  out: Writable
+): Promise<number> => {
+  const write = async (chunk: string) => {
+    if (!out.write(chunk)) {
+      await once(out, 'drain');
+    }
+  };
+
+  if (format === 'csv') {
+    await write(toCsvRow([...EXPORT_COLUMNS]));
+  } else if (format === 'json') {
+    await write('[');
+  }
+
+  let count = 0;
+  for await (const task of tasks) {
+    const row = formatRow(toExportRow(task), format);
+
+    if (format === 'json') {
+      await write(count === 0 ? `\n${row}` : `,\n${row}`);
+    } else if (format === 'ndjson') {
+      await write(`${row}\n`);
+    } else {
+      await write(row);
+    }
+    count++;
+  }
+
+  if (format === 'json') {
+    await write(count === 0 ? ']\n' : '\n]\n');
+  }
+
+  return count;
+};
@@ -0,0 +1,142 @@
+import mongoose from 'mongoose';
+import { Task, ITask, TaskStatus } from '../models/Task';
+import { AppError } from '../utils/AppError';
+
+// Subtasks can be nested, but not arbitrarily deep
+const MAX_SUBTASK_DEPTH = 5;
+
+const CLOSED_STATUSES = [TaskStatus.COMPLETED, TaskStatus.CANCELLED];
+
+const summaryFields = 'title status priority progress dueDate assignedTo parent';
+
+// Throw unless parentId can become the parent of the task (taskId is null for new tasks)
+export const assertValidParent = async (
+  taskId: mongoose.Types.ObjectId | null,
+  parentId: string
+): Promise<ITask> => {
+  const parent = await Task.findById(parentId);
+  if (!parent) {
+    throw new AppError('Parent task not found', 404);
+  }
+
+  // Walk up from the new parent; meeting the task itself would create a loop
+  let depth = 1;
+  let ancestor: ITask | null = parent;
+  while (ancestor) {
+    if (taskId && ancestor._id.equals(taskId)) {
+      throw new AppError('A task cannot be a subtask of itself or of its own subtasks', 409);
+    }
+    if (!ancestor.parent) {
+      break;
+    }
+    depth += 1;
+    if (depth > MAX_SUBTASK_DEPTH) {
+      throw new AppError(`Subtasks cannot be nested more than ${MAX_SUBTASK_DEPTH} levels deep`, 400);
+    }
+    ancestor = await Task.findById(ancestor.parent);
+  }
+
+  return parent;
+};
+
+// Throw if making blockerId block taskId would close a dependency cycle
+export const assertNoDependencyCycle = async (
+  taskId: mongoose.Types.ObjectId,
+  blockerId: mongoose.Types.ObjectId
+): Promise<void> => {
+  if (taskId.equals(blockerId)) {
+    throw new AppError('A task cannot block itself', 409);
+  }
+
+  // Breadth-first search through everything the blocker is itself blocked by
+  const visited = new Set<string>([blockerId.toString()]);
+  let frontier = [blockerId];
+
+  while (frontier.length > 0) {
+    const tasks = await Task.find({ _id: { $in: frontier } }).select('blockedBy');
+    frontier = [];
+
+    for (const task of tasks) {
+      for (const dependency of task.blockedBy) {
+        if (dependency.equals(taskId)) {
+          throw new AppError('This dependency would create a cycle', 409);
+        }
+        if (!visited.has(dependency.toString())) {
+          visited.add(dependency.toString());
+          frontier.push(dependency);
+        }
+      }
+    }
+  }
+};
+
+// Blockers of the task that are neither completed nor cancelled
+export const getOpenBlockers = async (task: ITask): Promise<ITask[]> => {
+  if (!task.blockedBy || task.blockedBy.length === 0) {
+    return [];
+  }
+
+  return Task.find({
+    _id: { $in: task.blockedBy.map(blocker => blocker._id) },
+    status: { $nin: CLOSED_STATUSES },
+  }).select(summaryFields);
+};
+
+// Recalculate a task's progress from its subtasks, then do the same for each ancestor
+export const rollUpProgress = async (
+  taskId: mongoose.Types.ObjectId | null | undefined
+): Promise<void> => {
+  let currentId = taskId;
+
+  while (currentId) {
+    const task = await Task.findById(currentId).select('status parent');
+    if (!task) {
+      return;
+    }
+
+    const subtasks = await Task.find({
+      parent: task._id,
+      status: { $ne: TaskStatus.CANCELLED },
+    }).select('progress');
+
+    // Leaf tasks are either done or not; parents average their subtasks
+    const progress = subtasks.length === 0
+      ? (task.status === TaskStatus.COMPLETED ? 100 : 0)
+      : Math.round(subtasks.reduce((sum, subtask) => sum + subtask.progress, 0) / subtasks.length);
+
+    await Task.updateOne({ _id: task._id }, { progress });
+
+    currentId = task.parent;
+  }
+};
+
+export interface SubtaskNode {
+  _id: mongoose.Types.ObjectId;
+  title: string;
+  status: TaskStatus;
+  progress: number;
+  subtasks: SubtaskNode[];
+  [key: string]: unknown;
+}
+
+// Nested tree of the task's subtasks
+export const buildSubtaskTree = async (
+  taskId: mongoose.Types.ObjectId,
+  depth = 1
+): Promise<SubtaskNode[]> => {
+  if (depth > MAX_SUBTASK_DEPTH) {
+    return [];
+  }
+
+  const subtasks = await Task.find({ parent: taskId })
+    .select(summaryFields)
+    .populate('assignedTo', 'username firstName lastName')
+    .sort({ createdAt: 1 });
+
+  return Promise.all(
+    subtasks.map(async subtask => ({
+      ...subtask.toObject(),
+      subtasks: await buildSubtaskTree(subtask._id, depth + 1),
+    }))
+  );
+};
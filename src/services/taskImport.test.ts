@@ -0,0 +1,36 @@
+import { TaskStatus } from '../models/Task';
+import { User } from '../models/User';
+import { importTasks } from './taskImport';
+import { DEFAULT_TASK_TRANSITIONS, setTaskTransitions } from './taskWorkflow';
+
+jest.mock('./taskActivity');
+
+const user = new User({ username: 'importer', email: 'importer@example.com' });
+
+describe('importTasks', () => {
+  beforeEach(() => {
+    // A workflow in which tasks can be started but not completed directly
+    setTaskTransitions([
+      { from: TaskStatus.PENDING, to: TaskStatus.IN_PROGRESS, actors: ['creator'] },
+    ]);
+  });
+
+  afterEach(() => {
+    setTaskTransitions(DEFAULT_TASK_TRANSITIONS);
+  });
+
+  it('only accepts row statuses the workflow allows for a new task', async () => {
+    const result = await importTasks(user, [
+      { title: 'Not started' },
+      { title: 'Started', status: 'in_progress' },
+      { title: 'Already done', status: 'completed' },
+    ], true);
+
+    expect(result.summary).toEqual({ total: 3, succeeded: 2, failed: 1 });
+    expect(result.results[2]).toEqual({
+      row: 3,
+      success: false,
+      errors: ['Cannot move task from pending to completed'],
+    });
+  });
+});
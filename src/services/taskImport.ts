@@ -0,0 +1,248 @@
+import mongoose from 'mongoose';
+import { Task, TaskPriority, TaskStatus } from '../models/Task';
+import { User, IUser } from '../models/User';
+import { IProject } from '../models/Project';
+import { AppError } from '../utils/AppError';
+import { parseCsvRecords } from '../utils/csv';
+import { taskSchema } from '../middleware/validation';
+import { findWritableProject } from './taskAccess';
+import { recordTaskCreated } from './taskActivity';
+import { assertTransition } from './taskWorkflow';
+import { EXPORT_COLUMNS } from './taskExport';
+
+export type ImportFormat = 'csv' | 'json' | 'ndjson';
+
+export interface ImportRowResult {
+  row: number;
+  success: boolean;
+  taskId?: string;
+  errors?: string[];
+}
+
+export interface ImportResult {
+  dryRun: boolean;
+  summary: {
+    total: number;
+    succeeded: number;
+    failed: number;
+  };
+  results: ImportRowResult[];
+}
+
+export const MAX_IMPORT_ROWS = parseInt(process.env.TASK_IMPORT_MAX_ROWS || '1000', 10);
+
+// Only files laid out like our exports carry the formula guard; in any other file a leading ' is data
+const isTaskExport = (columns: string[]): boolean =>
+  columns.length === EXPORT_COLUMNS.length && EXPORT_COLUMNS.every((column, index) => columns[index] === column);
+
+// Split the request body into one record per task
+export const parseImportRows = (body: unknown, format: ImportFormat): Record<string, unknown>[] => {
+  let rows: unknown[];
+
+  if (format === 'json') {
+    if (!Array.isArray(body)) {
+      throw new AppError('JSON imports must be an array of tasks', 400);
+    }
+    rows = body;
+  } else {
+    if (typeof body !== 'string') {
+      throw new AppError(`Send ${format.toUpperCase()} imports as the raw request body`, 400);
+    }
+
+    if (format === 'csv') {
+      rows = parseCsvRecords(body, isTaskExport);
+    } else {
+      rows = body
+        .split(/\r?\n/)
+        .filter(line => line.trim() !== '')
+        .map((line, index) => {
+          try {
+            return JSON.parse(line);
+          } catch {
+            throw new AppError(`Line ${index + 1} is not valid JSON`, 400);
+          }
+        });
+    }
+  }
+
+  if (rows.length === 0) {
+    throw new AppError('The import contains no tasks', 400);
+  }
+
+  if (rows.length > MAX_IMPORT_ROWS) {
+    throw new AppError(`Imports are limited to ${MAX_IMPORT_ROWS} tasks`, 400);
+  }
+
+  return rows.map(row => (row && typeof row === 'object' && !Array.isArray(row) ? row : {}) as Record<string, unknown>);
+};
+
+// Empty CSV cells and JSON nulls mean "not set"
+const optional = (value: unknown): unknown =>
+  value === null || (typeof value === 'string' && value.trim() === '') ? undefined : value;
+
+const toTags = (value: unknown): unknown => {
+  if (typeof value === 'string') {
+    return value.split(',').map(tag => tag.trim()).filter(Boolean);
+  }
+  return optional(value);
+};
+
+// Map an imported row onto the fields accepted by POST /api/tasks
+const toTaskPayload = (row: Record<string, unknown>): Record<string, unknown> => {
+  const payload: Record<string, unknown> = {
+    title: optional(row.title),
+    description: optional(row.description),
+    status: optional(row.status),
+    priority: optional(row.priority),
+    dueDate: optional(row.dueDate),
+    tags: toTags(row.tags),
+    project: optional(row.project),
+  };
+
+  for (const key of Object.keys(payload)) {
+    if (payload[key] === undefined) {
+      delete payload[key];
+    }
+  }
+
+  return payload;
+};
+
+// Look up every assignee named in the import at once, by username or email
+const loadAssignees = async (rows: Record<string, unknown>[]): Promise<Map<string, IUser>> => {
+  const identifiers = Array.from(new Set(
+    rows
+      .map(row => optional(row.assignee) ?? optional(row.assigneeEmail))
+      .filter((value): value is string => typeof value === 'string')
+      .map(value => value.trim().toLowerCase())
+  ));
+
+  const assignees = new Map<string, IUser>();
+  if (identifiers.length === 0) {
+    return assignees;
+  }
+
+  const users = await User.find({
+    isActive: true,
+    $or: [{ username: { $in: identifiers } }, { email: { $in: identifiers } }],
+  });
+
+  for (const user of users) {
+    assignees.set(user.username.toLowerCase(), user);
+    assignees.set(user.email.toLowerCase(), user);
+  }
+
+  return assignees;
+};
+
+// Create tasks from imported rows; every row is validated like POST /api/tasks and reported separately
+export const importTasks = async (
+  user: IUser,
+  rows: Record<string, unknown>[],
+  dryRun: boolean
+): Promise<ImportResult> => {
+  const assignees = await loadAssignees(rows);
+  const projects = new Map<string, Promise<IProject>>();
+  const results: ImportRowResult[] = [];
+
+  for (const [index, row] of rows.entries()) {
+    const rowNumber = index + 1;
+    const errors: string[] = [];
+
+    const { error, value } = taskSchema.validate(toTaskPayload(row), {
+      abortEarly: false,
+      stripUnknown: true,
+    });
+    if (error) {
+      errors.push(...error.details.map(detail => detail.message));
+    }
+
+    // Unassigned rows go to the importer, as with POST /api/tasks
+    let assignee: IUser | undefined = user;
+    const assigneeName = optional(row.assignee) ?? optional(row.assigneeEmail);
+    if (typeof assigneeName === 'string') {
+      assignee = assignees.get(assigneeName.trim().toLowerCase());
+      if (!assignee) {
+        errors.push(`Assigned user "${assigneeName}" not found`);
+      }
+    }
+
+    // Project tasks can only be assigned to project members
+    if (!error && value.project) {
+      if (!projects.has(value.project)) {
+        projects.set(value.project, findWritableProject(user, value.project));
+      }
+      try {
+        const project = await projects.get(value.project)!;
+        if (assignee && !project.getMemberRole(assignee._id)) {
+          errors.push('Assigned user is not a member of this project');
+        }
+      } catch (projectError) {
+        if (!(projectError instanceof AppError)) {
+          throw projectError;
+        }
+        errors.push(projectError.message);
+      }
+    }
+
+    if (errors.length || !assignee) {
+      results.push({ row: rowNumber, success: false, errors });
+      continue;
+    }
+
+    const task = new Task({
+      ...value,
+      priority: value.priority || TaskPriority.MEDIUM,
+      tags: value.tags || [],
+      assignedTo: assignee._id,
+      createdBy: user._id,
+      project: value.project || null,
+      status: TaskStatus.PENDING,
+    });
+
+    // Rows start out pending like any new task; any other status must be reachable through the workflow
+    if (value.status && value.status !== TaskStatus.PENDING) {
+      try {
+        await assertTransition(task, value.status, user);
+        task.status = value.status;
+      } catch (transitionError) {
+        if (!(transitionError instanceof AppError)) {
+          throw transitionError;
+        }
+        results.push({ row: rowNumber, success: false, errors: [transitionError.message] });
+        continue;
+      }
+    }
+
+    try {
+      if (dryRun) {
+        await task.validate();
+      } else {
+        await task.save();
+        await recordTaskCreated(task, user._id);
+      }
+      results.push({ row: rowNumber, success: true, ...(!dryRun && { taskId: task._id.toString() }) });
+    } catch (saveError) {
+      if (!(saveError instanceof mongoose.Error.ValidationError)) {
+        throw saveError;
+      }
+      results.push({
+        row: rowNumber,
+        success: false,
+        errors: Object.values(saveError.errors).map(fieldError => fieldError.message),
+      });
+    }
+  }
+
+  const succeeded = results.filter(result => result.success).length;
+
+  return {
+    dryRun,
+    summary: {
+      total: results.length,
+      succeeded,
+      failed: results.length - succeeded,
+    },
+    results,
+  };
+};
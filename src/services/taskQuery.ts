@@ -0,0 +1,246 @@
+import mongoose from 'mongoose';
+import { Task, TaskStatus } from '../models/Task';
+import { IUser } from '../models/User';
+import { Comment } from '../models/Comment';
+import { AppError } from '../utils/AppError';
+import { SortSpec, PageQuery, PaginationInfo, paginate } from '../utils/pagination';
+import { taskQuerySchema } from '../middleware/validation';
+import { assigneeFilter } from './taskAccess';
+
+// Task fields clients may pick with ?fields= on task lists
+export const TASK_SELECTABLE_FIELDS = [
+  'title',
+  'description',
+  'status',
+  'priority',
+  'dueDate',
+  'completedAt',
+  'estimate',
+  'tags',
+  'assignedTo',
+  'assignees',
+  'watchers',
+  'team',
+  'createdBy',
+  'project',
+  'sprint',
+  'parent',
+  'blockedBy',
+  'progress',
+  'rank',
+  'recurrence',
+  'overdueAt',
+  'createdAt',
+  'updatedAt',
+];
+
+// Task list filters, sort and pagination, as produced by taskQuerySchema
+export interface TaskQuery extends PageQuery {
+  status?: string[];
+  priority?: string[];
+  assignedTo?: string[];
+  createdBy?: string[];
+  project?: string[];
+  team?: string[];
+  sprint?: string[];
+  mine?: boolean;
+  watching?: boolean;
+  unassigned?: boolean;
+  overdue?: boolean;
+  dueAfter?: Date;
+  dueBefore?: Date;
+  createdAfter?: Date;
+  createdBefore?: Date;
+  tags?: string[];
+  tagMatch?: 'any' | 'all' | 'none';
+  search?: string;
+  sort?: string[];
+  sortBy?: string;
+  sortOrder?: 'asc' | 'desc';
+}
+
+const OPEN_STATUSES = [TaskStatus.PENDING, TaskStatus.IN_PROGRESS];
+
+// Validate and convert a stored or posted query (saved views, bulk filters) like GET /api/tasks does
+export const parseTaskQuery = (raw: Record<string, unknown>): TaskQuery => {
+  const { error, value } = taskQuerySchema.validate(raw, {
+    abortEarly: false,
+    stripUnknown: true,
+  });
+
+  if (error) {
+    const errorMessage = error.details
+      .map((detail) => detail.message)
+      .join(', ');
+    throw new AppError(errorMessage, 400);
+  }
+
+  return value;
+};
+
+// Replace "me" with the caller's id
+const resolveUserIds = (ids: string[], userId: mongoose.Types.ObjectId): mongoose.Types.ObjectId[] =>
+  ids.map(id => (id === 'me' ? userId : new mongoose.Types.ObjectId(id)));
+
+// Translate list filters into a MongoDB filter, scoped by the caller's visibility filter
+export const buildTaskFilter = (
+  query: TaskQuery,
+  userId: mongoose.Types.ObjectId,
+  baseFilter: any = {}
+): any => {
+  const conditions: any[] = [];
+
+  if (query.status?.length) {
+    conditions.push({ status: { $in: query.status } });
+  }
+
+  if (query.priority?.length) {
+    conditions.push({ priority: { $in: query.priority } });
+  }
+
+  // Co-assignees count as assigned just like the primary assignee
+  if (query.assignedTo?.length) {
+    const assigneeIds = resolveUserIds(query.assignedTo, userId);
+    conditions.push({
+      $or: [
+        { assignedTo: { $in: assigneeIds } },
+        { assignees: { $in: assigneeIds } },
+      ],
+    });
+  }
+
+  if (query.createdBy?.length) {
+    conditions.push({ createdBy: { $in: resolveUserIds(query.createdBy, userId) } });
+  }
+
+  if (query.project?.length) {
+    conditions.push({ project: { $in: query.project.map(id => new mongoose.Types.ObjectId(id)) } });
+  }
+
+  if (query.team?.length) {
+    conditions.push({ team: { $in: query.team.map(id => new mongoose.Types.ObjectId(id)) } });
+  }
+
+  if (query.sprint?.length) {
+    conditions.push({ sprint: { $in: query.sprint.map(id => new mongoose.Types.ObjectId(id)) } });
+  }
+
+  if (query.mine) {
+    conditions.push(assigneeFilter(userId));
+  }
+
+  if (query.watching) {
+    conditions.push({ watchers: userId });
+  }
+
+  if (query.unassigned) {
+    conditions.push({ assignedTo: null });
+  }
+
+  if (query.overdue === true) {
+    conditions.push({ status: { $in: OPEN_STATUSES }, dueDate: { $lt: new Date() } });
+  } else if (query.overdue === false) {
+    conditions.push({
+      $or: [
+        { status: { $nin: OPEN_STATUSES } },
+        { dueDate: null },
+        { dueDate: { $gte: new Date() } },
+      ],
+    });
+  }
+
+  if (query.dueAfter || query.dueBefore) {
+    conditions.push({
+      dueDate: {
+        ...(query.dueAfter && { $gte: query.dueAfter }),
+        ...(query.dueBefore && { $lte: query.dueBefore }),
+      },
+    });
+  }
+
+  if (query.createdAfter || query.createdBefore) {
+    conditions.push({
+      createdAt: {
+        ...(query.createdAfter && { $gte: query.createdAfter }),
+        ...(query.createdBefore && { $lte: query.createdBefore }),
+      },
+    });
+  }
+
+  if (query.tags?.length) {
+    const operator = { any: '$in', all: '$all', none: '$nin' }[query.tagMatch || 'any'];
+    conditions.push({ tags: { [operator]: query.tags } });
+  }
+
+  const filter: any = { ...baseFilter };
+
+  if (conditions.length) {
+    filter.$and = [...(filter.$and || []), ...conditions];
+  }
+
+  // $text has to stay at the top level of the filter
+  if (query.search) {
+    filter.$text = { $search: query.search };
+  }
+
+  return filter;
+};
+
+// Status and priority sort on their stored workflow and urgency order
+const SORT_FIELDS: Record<string, string> = {
+  status: 'statusOrder',
+  priority: 'priorityOrder',
+};
+
+const toSortField = (key: string): string => SORT_FIELDS[key] || key;
+
+// "sort=-priority,dueDate" wins over the older sortBy/sortOrder pair; newest first by default
+export const buildTaskSort = (query: TaskQuery): SortSpec => {
+  if (query.sort?.length) {
+    return query.sort.map(key =>
+      key.startsWith('-') ? [toSortField(key.slice(1)), -1] : [toSortField(key), 1]
+    );
+  }
+
+  return [[toSortField(query.sortBy || 'createdAt'), query.sortOrder === 'asc' ? 1 : -1]];
+};
+
+// Count comments for each of the given tasks
+const countComments = async (taskIds: mongoose.Types.ObjectId[]): Promise<Map<string, number>> => {
+  const counts = await Comment.aggregate([
+    { $match: { task: { $in: taskIds } } },
+    { $group: { _id: '$task', count: { $sum: 1 } } },
+  ]);
+
+  return new Map(counts.map(c => [c._id.toString(), c.count]));
+};
+
+// One page of tasks matching the query, with comment counts attached
+export const findTaskPage = async (
+  query: TaskQuery,
+  user: IUser,
+  baseFilter: any
+): Promise<{ tasks: Record<string, unknown>[]; pagination: PaginationInfo }> => {
+  const filter = buildTaskFilter(query, user._id, baseFilter);
+
+  const { items, pagination } = await paginate(Task, filter, query, {
+    sort: buildTaskSort(query),
+    selectableFields: TASK_SELECTABLE_FIELDS,
+    populate: [
+      { path: 'assignedTo', select: 'username email firstName lastName' },
+      { path: 'assignees', select: 'username email firstName lastName' },
+      { path: 'createdBy', select: 'username email firstName lastName' },
+      { path: 'team', select: 'name' },
+    ],
+  });
+
+  const commentCounts = await countComments(items.map(task => task._id));
+
+  return {
+    tasks: items.map(task => ({
+      ...task.toObject(),
+      commentCount: commentCounts.get(task._id.toString()) || 0,
+    })),
+    pagination,
+  };
+};
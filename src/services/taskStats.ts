@@ -0,0 +1,103 @@
+import { Task, TaskStatus, TaskPriority } from '../models/Task';
+import { TimeEntry } from '../models/TimeEntry';
+
+export interface TaskStats {
+  statusStats: Array<{ status: TaskStatus; count: number }>;
+  priorityDistribution: Array<{ priority: TaskPriority; count: number }>;
+  overdueTasks: number;
+  totalTasks: number;
+  time: {
+    estimatedMinutes: number;
+    loggedMinutes: number;
+    // Logged time on tasks that have an estimate, to compare against estimatedMinutes
+    loggedOnEstimatedMinutes: number;
+  };
+}
+
+// Status, priority and overdue figures for every task matching the given filter
+export const buildTaskStats = async (match: any): Promise<TaskStats> => {
+  // Get status distribution
+  const stats = await Task.aggregate([
+    { $match: match },
+    {
+      $group: {
+        _id: '$status',
+        count: { $sum: 1 },
+      },
+    },
+  ]);
+
+  // Get priority distribution
+  const priorityStats = await Task.aggregate([
+    { $match: match },
+    {
+      $group: {
+        _id: '$priority',
+        count: { $sum: 1 },
+      },
+    },
+  ]);
+
+  // Get overdue tasks count
+  const overdueTasks = await Task.countDocuments({
+    $and: [
+      match,
+      {
+        dueDate: { $lt: new Date() },
+        status: { $ne: TaskStatus.COMPLETED },
+      },
+    ],
+  });
+
+  // Estimated vs. logged time; running timers have no minutes yet and are not counted
+  const [time] = await Task.aggregate([
+    { $match: match },
+    {
+      $lookup: {
+        from: TimeEntry.collection.name,
+        localField: '_id',
+        foreignField: 'task',
+        pipeline: [{ $group: { _id: null, minutes: { $sum: '$minutes' } } }],
+        as: 'logged',
+      },
+    },
+    {
+      $project: {
+        estimate: { $ifNull: ['$estimate', 0] },
+        hasEstimate: { $ne: [{ $ifNull: ['$estimate', null] }, null] },
+        loggedMinutes: { $ifNull: [{ $first: '$logged.minutes' }, 0] },
+      },
+    },
+    {
+      $group: {
+        _id: null,
+        estimatedMinutes: { $sum: '$estimate' },
+        loggedMinutes: { $sum: '$loggedMinutes' },
+        loggedOnEstimatedMinutes: { $sum: { $cond: ['$hasEstimate', '$loggedMinutes', 0] } },
+      },
+    },
+  ]);
+
+  // Format stats
+  const statusStats = Object.values(TaskStatus).map(status => ({
+    status,
+    count: stats.find(s => s._id === status)?.count || 0,
+  }));
+
+  const priorityDistribution = Object.values(TaskPriority).map(priority => ({
+    priority,
+    count: priorityStats.find(s => s._id === priority)?.count || 0,
+  }));
+
+  return {
+    statusStats,
+    priorityDistribution,
+    overdueTasks,
+    totalTasks: stats.reduce((sum, stat) => sum + stat.count, 0),
+    time: {
+      estimatedMinutes: time?.estimatedMinutes || 0,
+      loggedMinutes: time?.loggedMinutes || 0,
+      loggedOnEstimatedMinutes: time?.loggedOnEstimatedMinutes || 0,
+    },
+  };
+};
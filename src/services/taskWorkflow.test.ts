@@ -0,0 +1,98 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import mongoose from 'mongoose';
+import { Task, TaskStatus } from '../models/Task';
+import { User, UserRole } from '../models/User';
+import {
+  DEFAULT_TASK_TRANSITIONS,
+  assertTransition,
+  getAllowedTransitions,
+  getTaskTransitions,
+  loadTaskWorkflow,
+  setTaskTransitions,
+} from './taskWorkflow';
+
+const makeUser = (role: UserRole = UserRole.MEMBER) =>
+  new User({ username: `user${Math.random()}`, email: 'user@example.com', role });
+
+// Tasks without a project or blockers never need the database
+const makeTask = (status: TaskStatus, createdBy: mongoose.Types.ObjectId, assignedTo?: mongoose.Types.ObjectId) =>
+  new Task({ title: 'Write tests', status, createdBy, assignedTo, blockedBy: [] });
+
+describe('task workflow', () => {
+  afterEach(() => {
+    setTaskTransitions(DEFAULT_TASK_TRANSITIONS);
+  });
+
+  it('lists the transitions open to the task creator', async () => {
+    const creator = makeUser();
+    const task = makeTask(TaskStatus.PENDING, creator._id);
+
+    expect(await getAllowedTransitions(task, creator)).toEqual([
+      TaskStatus.IN_PROGRESS,
+      TaskStatus.COMPLETED,
+      TaskStatus.CANCELLED,
+    ]);
+  });
+
+  it('does not let assignees cancel tasks', async () => {
+    const creator = makeUser();
+    const assignee = makeUser();
+    const task = makeTask(TaskStatus.IN_PROGRESS, creator._id, assignee._id);
+
+    expect(await getAllowedTransitions(task, assignee)).toEqual([TaskStatus.PENDING, TaskStatus.COMPLETED]);
+    await expect(assertTransition(task, TaskStatus.CANCELLED, assignee)).rejects.toMatchObject({ statusCode: 403 });
+  });
+
+  it('lets admins reopen cancelled tasks', async () => {
+    const task = makeTask(TaskStatus.CANCELLED, new mongoose.Types.ObjectId());
+
+    await expect(assertTransition(task, TaskStatus.PENDING, makeUser(UserRole.ADMIN))).resolves.toBeUndefined();
+    await expect(assertTransition(task, TaskStatus.PENDING, makeUser(UserRole.MANAGER))).rejects.toMatchObject({
+      statusCode: 403,
+    });
+  });
+
+  it('rejects moves the workflow does not define', async () => {
+    const creator = makeUser();
+    const task = makeTask(TaskStatus.COMPLETED, creator._id);
+
+    await expect(assertTransition(task, TaskStatus.CANCELLED, creator)).rejects.toMatchObject({
+      message: 'Cannot move task from completed to cancelled',
+      statusCode: 409,
+    });
+    await expect(assertTransition(task, TaskStatus.COMPLETED, creator)).rejects.toMatchObject({
+      message: 'Task is already completed',
+      statusCode: 409,
+    });
+  });
+
+  it('follows a configured workflow', async () => {
+    const creator = makeUser();
+    const task = makeTask(TaskStatus.PENDING, creator._id);
+
+    setTaskTransitions([{ from: TaskStatus.PENDING, to: TaskStatus.IN_PROGRESS, actors: ['admin'] }]);
+
+    expect(await getAllowedTransitions(task, creator)).toEqual([]);
+    await expect(assertTransition(task, TaskStatus.COMPLETED, creator)).rejects.toMatchObject({ statusCode: 409 });
+  });
+
+  it('rejects invalid workflow files', () => {
+    const file = path.join(os.tmpdir(), `workflow-${process.pid}.json`);
+    process.env.TASK_WORKFLOW_FILE = file;
+
+    try {
+      fs.writeFileSync(file, JSON.stringify([{ from: TaskStatus.PENDING, to: 'done', actors: ['creator'] }]));
+      expect(loadTaskWorkflow).toThrow('Invalid task workflow configuration');
+
+      fs.writeFileSync(file, JSON.stringify([{ from: TaskStatus.PENDING, to: TaskStatus.COMPLETED, actors: ['owner'] }]));
+      expect(loadTaskWorkflow).toThrow('Invalid task workflow configuration');
+
+      expect(getTaskTransitions()).toBe(DEFAULT_TASK_TRANSITIONS);
+    } finally {
+      delete process.env.TASK_WORKFLOW_FILE;
+      fs.rmSync(file, { force: true });
+    }
+  });
+});
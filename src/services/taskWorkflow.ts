@@ -0,0 +1,130 @@
+import fs from 'fs';
+import { ITask, TaskStatus } from '../models/Task';
+import { IUser, UserRole } from '../models/User';
+import { Project, ProjectRole } from '../models/Project';
+import { AppError } from '../utils/AppError';
+import { logger } from '../utils/logger';
+import { getOpenBlockers } from './taskHierarchy';
+
+// Who may perform a transition:
+// creator/assignee of the task, owner/manager of its project, or a global admin/manager
+export type TransitionActor = 'creator' | 'assignee' | 'projectManager' | 'manager' | 'admin';
+
+export interface TransitionRule {
+  from: TaskStatus;
+  to: TaskStatus;
+  actors: TransitionActor[];
+}
+
+export const DEFAULT_TASK_TRANSITIONS: TransitionRule[] = [
+  { from: TaskStatus.PENDING, to: TaskStatus.IN_PROGRESS, actors: ['creator', 'assignee', 'projectManager', 'manager'] },
+  { from: TaskStatus.PENDING, to: TaskStatus.COMPLETED, actors: ['creator', 'assignee', 'projectManager', 'manager'] },
+  { from: TaskStatus.PENDING, to: TaskStatus.CANCELLED, actors: ['creator', 'admin'] },
+  { from: TaskStatus.IN_PROGRESS, to: TaskStatus.PENDING, actors: ['creator', 'assignee', 'projectManager', 'manager'] },
+  { from: TaskStatus.IN_PROGRESS, to: TaskStatus.COMPLETED, actors: ['creator', 'assignee', 'projectManager', 'manager'] },
+  { from: TaskStatus.IN_PROGRESS, to: TaskStatus.CANCELLED, actors: ['creator', 'admin'] },
+  { from: TaskStatus.COMPLETED, to: TaskStatus.IN_PROGRESS, actors: ['creator', 'assignee', 'projectManager', 'manager'] },
+  { from: TaskStatus.CANCELLED, to: TaskStatus.PENDING, actors: ['creator', 'admin'] },
+];
+
+let transitions: TransitionRule[] = DEFAULT_TASK_TRANSITIONS;
+
+const isTransitionRule = (rule: any): rule is TransitionRule => {
+  const statuses = Object.values(TaskStatus) as string[];
+  const actors = ['creator', 'assignee', 'projectManager', 'manager', 'admin'];
+
+  return (
+    rule &&
+    statuses.includes(rule.from) &&
+    statuses.includes(rule.to) &&
+    Array.isArray(rule.actors) &&
+    rule.actors.every((actor: string) => actors.includes(actor))
+  );
+};
+
+export const setTaskTransitions = (rules: TransitionRule[]): void => {
+  if (!Array.isArray(rules) || !rules.every(isTransitionRule)) {
+    throw new Error('Invalid task workflow configuration');
+  }
+  transitions = rules;
+};
+
+export const getTaskTransitions = (): TransitionRule[] => transitions;
+
+// Replace the default workflow with the JSON rules in TASK_WORKFLOW_FILE, if configured
+export const loadTaskWorkflow = (): void => {
+  const file = process.env.TASK_WORKFLOW_FILE;
+  if (!file) {
+    return;
+  }
+
+  setTaskTransitions(JSON.parse(fs.readFileSync(file, 'utf8')));
+  logger.info(`Loaded task workflow from ${file}`);
+};
+
+// Work out which actor kinds the user counts as for this task
+const resolveActors = async (task: ITask, user: IUser): Promise<Set<TransitionActor>> => {
+  const actors = new Set<TransitionActor>();
+
+  if (task.createdBy._id.equals(user._id)) {
+    actors.add('creator');
+  }
+  if (task.assignedTo?._id.equals(user._id)) {
+    actors.add('assignee');
+  }
+  if (user.role === UserRole.ADMIN) {
+    actors.add('admin');
+    actors.add('manager');
+  }
+  if (user.role === UserRole.MANAGER) {
+    actors.add('manager');
+  }
+  if (task.project) {
+    const project = await Project.findById(task.project._id);
+    if (project?.hasRole(user._id, ProjectRole.OWNER, ProjectRole.MANAGER)) {
+      actors.add('projectManager');
+    }
+  }
+
+  return actors;
+};
+
+// Statuses the user may move the task to from its current status
+export const getAllowedTransitions = async (task: ITask, user: IUser): Promise<TaskStatus[]> => {
+  const actors = await resolveActors(task, user);
+
+  return transitions
+    .filter(rule => rule.from === task.status && rule.actors.some(actor => actors.has(actor)))
+    .map(rule => rule.to);
+};
+
+// Throw unless the workflow lets the user move the task to the given status
+export const assertTransition = async (task: ITask, to: TaskStatus, user: IUser): Promise<void> => {
+  if (task.status === to) {
+    throw new AppError(`Task is already ${to}`, 409);
+  }
+
+  const rule = transitions.find(r => r.from === task.status && r.to === to);
+  if (!rule) {
+    throw new AppError(`Cannot move task from ${task.status} to ${to}`, 409);
+  }
+
+  const actors = await resolveActors(task, user);
+  if (!rule.actors.some(actor => actors.has(actor))) {
+    throw new AppError(
+      `Only the ${rule.actors.join(', ')} may move a task from ${task.status} to ${to}`,
+      403
+    );
+  }
+
+  // Dependencies must be closed before a task can be completed
+  if (to === TaskStatus.COMPLETED) {
+    const openBlockers = await getOpenBlockers(task);
+    if (openBlockers.length > 0) {
+      throw new AppError(
+        `Task is blocked by ${openBlockers.length} open task(s): ${openBlockers.map(b => b.title).join(', ')}`,
+        409
+      );
+    }
+  }
+};
@@ -0,0 +1,142 @@
+import mongoose from 'mongoose';
+import { Task, ITask } from '../models/Task';
+import { User, IUser } from '../models/User';
+import { TimeEntry, ITimeEntry, TimeEntrySource } from '../models/TimeEntry';
+import { AppError } from '../utils/AppError';
+
+export type TimeReportGroup = 'task' | 'user' | 'day';
+
+export interface TimeReportRow {
+  key: string;
+  minutes: number;
+  entries: number;
+  // Task title and estimate, or user name, depending on the grouping
+  label?: string;
+  estimate?: number | null;
+}
+
+export interface TimeReport {
+  totalMinutes: number;
+  totalEntries: number;
+  groupBy: TimeReportGroup;
+  groups: TimeReportRow[];
+}
+
+const MS_PER_MINUTE = 60 * 1000;
+
+// A single entry covers at most a day, whether logged manually or with a timer
+const MAX_ENTRY_MINUTES = 24 * 60;
+
+// Timers always log at least a minute, rounded up; forgotten timers log a day at most
+const elapsedMinutes = (from: Date, to: Date): number =>
+  Math.min(MAX_ENTRY_MINUTES, Math.max(1, Math.ceil((to.getTime() - from.getTime()) / MS_PER_MINUTE)));
+
+export const findRunningTimer = async (userId: mongoose.Types.ObjectId): Promise<ITimeEntry | null> =>
+  TimeEntry.findOne({ user: userId, isRunning: true });
+
+// Start a timer on a task; each user can only have one running timer
+export const startTimer = async (user: IUser, task: ITask, note?: string): Promise<ITimeEntry> => {
+  try {
+    return await TimeEntry.create({
+      task: task._id,
+      user: user._id,
+      source: TimeEntrySource.TIMER,
+      startedAt: new Date(),
+      isRunning: true,
+      note,
+    });
+  } catch (error: unknown) {
+    // The unique index on running timers settles concurrent starts
+    if (error instanceof mongoose.mongo.MongoServerError && error.code === 11000) {
+      throw new AppError('You already have a running timer; stop it first', 409);
+    }
+    throw error;
+  }
+};
+
+// Stop the user's running timer and log the elapsed time
+export const stopTimer = async (userId: mongoose.Types.ObjectId): Promise<ITimeEntry> => {
+  const running = await findRunningTimer(userId);
+  if (!running) {
+    throw new AppError('No timer is running', 404);
+  }
+
+  const minutes = elapsedMinutes(running.startedAt, new Date());
+  const endedAt = new Date(running.startedAt.getTime() + minutes * MS_PER_MINUTE);
+  const stopped = await TimeEntry.findOneAndUpdate(
+    { _id: running._id, isRunning: true },
+    { isRunning: false, endedAt, minutes },
+    { new: true }
+  );
+
+  if (!stopped) {
+    throw new AppError('No timer is running', 404);
+  }
+
+  return stopped;
+};
+
+// Record time worked without a timer
+export const logTime = async (
+  user: IUser,
+  task: ITask,
+  entry: { minutes: number; startedAt?: Date; note?: string }
+): Promise<ITimeEntry> => {
+  const startedAt = entry.startedAt ? new Date(entry.startedAt) : new Date(Date.now() - entry.minutes * MS_PER_MINUTE);
+
+  return TimeEntry.create({
+    task: task._id,
+    user: user._id,
+    source: TimeEntrySource.MANUAL,
+    startedAt,
+    endedAt: new Date(startedAt.getTime() + entry.minutes * MS_PER_MINUTE),
+    minutes: entry.minutes,
+    note: entry.note,
+  });
+};
+
+// Logged time for finished entries matching the filter, grouped by task, user or day
+export const buildTimeReport = async (match: any, groupBy: TimeReportGroup): Promise<TimeReport> => {
+  const groupKey = {
+    task: '$task',
+    user: '$user',
+    day: { $dateToString: { format: '%Y-%m-%d', date: '$startedAt' } },
+  }[groupBy];
+
+  const pipeline: any[] = [
+    { $match: { ...match, isRunning: false } },
+    { $group: { _id: groupKey, minutes: { $sum: '$minutes' }, entries: { $sum: 1 } } },
+  ];
+
+  if (groupBy === 'task') {
+    pipeline.push(
+      { $lookup: { from: Task.collection.name, localField: '_id', foreignField: '_id', as: 'task' } },
+      {
+        $project: {
+          minutes: 1,
+          entries: 1,
+          label: { $first: '$task.title' },
+          estimate: { $ifNull: [{ $first: '$task.estimate' }, null] },
+        },
+      },
+      { $sort: { minutes: -1 } }
+    );
+  } else if (groupBy === 'user') {
+    pipeline.push(
+      { $lookup: { from: User.collection.name, localField: '_id', foreignField: '_id', as: 'user' } },
+      { $project: { minutes: 1, entries: 1, label: { $first: '$user.username' } } },
+      { $sort: { minutes: -1 } }
+    );
+  } else {
+    pipeline.push({ $sort: { _id: 1 } });
+  }
+
+  const rows = await TimeEntry.aggregate(pipeline);
+
+  return {
+    totalMinutes: rows.reduce((sum, row) => sum + row.minutes, 0),
+    totalEntries: rows.reduce((sum, row) => sum + row.entries, 0),
+    groupBy,
+    groups: rows.map(({ _id, ...row }) => ({ key: _id.toString(), ...row })),
+  };
+};
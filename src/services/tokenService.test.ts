@@ -0,0 +1,104 @@
+import mongoose from 'mongoose';
+import { RefreshToken } from '../models/RefreshToken';
+import { User } from '../models/User';
+import { hashToken, rotateRefreshToken } from './tokenService';
+
+jest.mock('../models/RefreshToken', () => ({
+  RefreshToken: {
+    create: jest.fn(),
+    findOne: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+    updateMany: jest.fn(),
+  },
+}));
+
+jest.mock('../models/User', () => ({
+  User: {
+    findById: jest.fn(),
+    findByIdAndUpdate: jest.fn(),
+  },
+}));
+
+const claim = RefreshToken.findOneAndUpdate as jest.Mock;
+const findStored = RefreshToken.findOne as jest.Mock;
+const createStored = RefreshToken.create as jest.Mock;
+const revokeStored = RefreshToken.updateMany as jest.Mock;
+const findUser = User.findById as jest.Mock;
+const bumpTokenVersion = User.findByIdAndUpdate as jest.Mock;
+
+describe('rotateRefreshToken', () => {
+  const userId = new mongoose.Types.ObjectId();
+
+  beforeAll(() => {
+    process.env.JWT_SECRET = 'test-secret';
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    findUser.mockResolvedValue({ _id: userId, isActive: true, tokenVersion: 0 });
+  });
+
+  it('claims the presented token and issues a new pair', async () => {
+    claim.mockResolvedValue({ user: userId });
+
+    const { tokens } = await rotateRefreshToken('old-token');
+
+    expect(tokens.refreshToken).not.toBe('old-token');
+    expect(tokens.token).toEqual(expect.any(String));
+
+    const [filter, update] = claim.mock.calls[0];
+    expect(filter).toMatchObject({ tokenHash: hashToken('old-token'), revokedAt: null });
+    expect(update.replacedByHash).toBe(hashToken(tokens.refreshToken));
+    expect(createStored).toHaveBeenCalledWith(
+      expect.objectContaining({ user: userId, tokenHash: hashToken(tokens.refreshToken) })
+    );
+    expect(revokeStored).not.toHaveBeenCalled();
+  });
+
+  it('revokes every session when a rotated token is presented again', async () => {
+    claim.mockResolvedValue(null);
+    findStored.mockResolvedValue({ user: userId, revokedAt: new Date(), replacedByHash: 'next-hash' });
+
+    await expect(rotateRefreshToken('rotated-token')).rejects.toMatchObject({
+      message: 'Invalid refresh token',
+      statusCode: 401,
+    });
+
+    expect(bumpTokenVersion).toHaveBeenCalledWith(userId, { $inc: { tokenVersion: 1 } });
+    expect(revokeStored).toHaveBeenCalledWith({ user: userId, revokedAt: null }, expect.any(Object));
+    expect(createStored).not.toHaveBeenCalled();
+  });
+
+  it('rejects unknown tokens without touching any session', async () => {
+    claim.mockResolvedValue(null);
+    findStored.mockResolvedValue(null);
+
+    await expect(rotateRefreshToken('unknown-token')).rejects.toMatchObject({
+      message: 'Invalid refresh token',
+      statusCode: 401,
+    });
+
+    expect(bumpTokenVersion).not.toHaveBeenCalled();
+    expect(revokeStored).not.toHaveBeenCalled();
+  });
+
+  it('rejects expired or logged-out tokens without treating them as reuse', async () => {
+    claim.mockResolvedValue(null);
+    findStored.mockResolvedValue({ user: userId, revokedAt: new Date() });
+
+    await expect(rotateRefreshToken('revoked-token')).rejects.toMatchObject({
+      message: 'Refresh token expired or revoked',
+      statusCode: 401,
+    });
+
+    expect(bumpTokenVersion).not.toHaveBeenCalled();
+  });
+
+  it('refuses to issue tokens to deactivated users', async () => {
+    claim.mockResolvedValue({ user: userId });
+    findUser.mockResolvedValue({ _id: userId, isActive: false, tokenVersion: 0 });
+
+    await expect(rotateRefreshToken('old-token')).rejects.toMatchObject({ statusCode: 403 });
+    expect(createStored).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,175 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import mongoose from 'mongoose';
+import { User, IUser } from '../models/User';
+import { RefreshToken } from '../models/RefreshToken';
+import { AppError } from '../utils/AppError';
+import { logger } from '../utils/logger';
+
+export interface AccessTokenPayload {
+  userId: string;
+  tokenVersion: number;
+  // Set on single-purpose tokens, which are not accepted as access tokens
+  purpose?: TokenPurpose;
+}
+
+export type TokenPurpose = 'event-stream';
+
+// Lets an EventSource open the event stream without putting the access token in the URL
+export interface StreamTokenPayload extends AccessTokenPayload {
+  purpose: 'event-stream';
+  // When the access token the stream token was issued for expires (Unix seconds)
+  sessionExp: number;
+}
+
+export interface TokenPair {
+  token: string;
+  refreshToken: string;
+  expiresIn: string;
+}
+
+export interface ClientInfo {
+  ip?: string;
+  userAgent?: string;
+}
+
+const ACCESS_TOKEN_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '15m';
+const REFRESH_TOKEN_EXPIRES_IN_DAYS = parseInt(process.env.REFRESH_TOKEN_EXPIRES_IN_DAYS || '30', 10);
+export const STREAM_TOKEN_EXPIRES_IN_SECONDS = 60;
+
+// Only a hash of opaque tokens is ever persisted
+export const hashToken = (token: string): string =>
+  crypto.createHash('sha256').update(token).digest('hex');
+
+// Random single-use token for emailed links; the caller stores only the hash
+export const createOneTimeToken = (): { token: string; tokenHash: string } => {
+  const token = crypto.randomBytes(32).toString('hex');
+  return { token, tokenHash: hashToken(token) };
+};
+
+export const generateAccessToken = (user: IUser): string => {
+  if (!process.env.JWT_SECRET) {
+    throw new Error('JWT_SECRET is not defined');
+  }
+
+  const payload: AccessTokenPayload = {
+    userId: user._id.toString(),
+    tokenVersion: user.tokenVersion,
+  };
+
+  return jwt.sign(payload, process.env.JWT_SECRET, {
+    expiresIn: ACCESS_TOKEN_EXPIRES_IN as jwt.SignOptions['expiresIn'],
+  });
+};
+
+// Short-lived token that only opens the event stream; the stream ends when the access token would have
+export const generateStreamToken = (user: IUser, sessionExpiresAt: Date): string => {
+  if (!process.env.JWT_SECRET) {
+    throw new Error('JWT_SECRET is not defined');
+  }
+
+  const payload: StreamTokenPayload = {
+    userId: user._id.toString(),
+    tokenVersion: user.tokenVersion,
+    purpose: 'event-stream',
+    sessionExp: Math.floor(sessionExpiresAt.getTime() / 1000),
+  };
+
+  return jwt.sign(payload, process.env.JWT_SECRET, {
+    expiresIn: STREAM_TOKEN_EXPIRES_IN_SECONDS,
+  });
+};
+
+const generateRefreshToken = (): string => crypto.randomBytes(48).toString('hex');
+
+const createRefreshToken = async (
+  userId: mongoose.Types.ObjectId,
+  client: ClientInfo,
+  refreshToken: string = generateRefreshToken()
+): Promise<string> => {
+  await RefreshToken.create({
+    user: userId,
+    tokenHash: hashToken(refreshToken),
+    expiresAt: new Date(Date.now() + REFRESH_TOKEN_EXPIRES_IN_DAYS * 24 * 60 * 60 * 1000),
+    createdByIp: client.ip,
+    userAgent: client.userAgent,
+  });
+
+  return refreshToken;
+};
+
+export const issueTokenPair = async (
+  user: IUser,
+  client: ClientInfo = {},
+  nextRefreshToken?: string
+): Promise<TokenPair> => {
+  const refreshToken = await createRefreshToken(user._id, client, nextRefreshToken);
+
+  return {
+    token: generateAccessToken(user),
+    refreshToken,
+    expiresIn: ACCESS_TOKEN_EXPIRES_IN,
+  };
+};
+
+// Invalidate every access and refresh token the user currently holds
+export const revokeAllSessions = async (userId: mongoose.Types.ObjectId): Promise<void> => {
+  await User.findByIdAndUpdate(userId, { $inc: { tokenVersion: 1 } });
+  await RefreshToken.updateMany(
+    { user: userId, revokedAt: null },
+    { revokedAt: new Date() }
+  );
+};
+
+export const rotateRefreshToken = async (
+  refreshToken: string,
+  client: ClientInfo = {}
+): Promise<{ user: IUser; tokens: TokenPair }> => {
+  const tokenHash = hashToken(refreshToken);
+  const nextRefreshToken = generateRefreshToken();
+  const now = new Date();
+
+  // Claim the token atomically, so of two concurrent refreshes with the same token only one succeeds
+  const claimed = await RefreshToken.findOneAndUpdate(
+    { tokenHash, revokedAt: null, expiresAt: { $gt: now } },
+    { revokedAt: now, replacedByHash: hashToken(nextRefreshToken) },
+    { new: true }
+  );
+
+  if (!claimed) {
+    const stored = await RefreshToken.findOne({ tokenHash });
+
+    if (!stored) {
+      throw new AppError('Invalid refresh token', 401);
+    }
+
+    // A rotated token being presented again means it leaked, so end every session
+    if (stored.revokedAt && stored.replacedByHash) {
+      logger.warn(`Refresh token reuse detected for user ${stored.user}`);
+      await revokeAllSessions(stored.user);
+      throw new AppError('Invalid refresh token', 401);
+    }
+
+    throw new AppError('Refresh token expired or revoked', 401);
+  }
+
+  const user = await User.findById(claimed.user);
+  if (!user) {
+    throw new AppError('User not found', 404);
+  }
+
+  if (!user.isActive) {
+    throw new AppError('User account is deactivated', 403);
+  }
+
+  const tokens = await issueTokenPair(user, client, nextRefreshToken);
+
+  return { user, tokens };
+};
+
+export const revokeRefreshToken = async (refreshToken: string): Promise<void> => {
+  await RefreshToken.findOneAndUpdate(
+    { tokenHash: hashToken(refreshToken), revokedAt: null },
+    { revokedAt: new Date() }
+  );
+};
@@ -0,0 +1,36 @@
+import dns from 'dns';
+import { assertPublicUrl } from './webhooks';
+
+jest.mock('./eventBus');
+
+describe('assertPublicUrl', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const resolveTo = (...addresses: string[]) =>
+    jest.spyOn(dns.promises, 'lookup').mockResolvedValue(
+      addresses.map(address => ({ address, family: address.includes(':') ? 6 : 4 })) as never
+    );
+
+  it('returns the checked addresses so the delivery connects to them and not to a fresh lookup', async () => {
+    resolveTo('93.184.216.34');
+
+    await expect(assertPublicUrl('https://hooks.example.com/in')).resolves.toEqual([
+      { address: '93.184.216.34', family: 4 },
+    ]);
+  });
+
+  it('rejects hosts with any private address', async () => {
+    resolveTo('93.184.216.34', '10.0.0.5');
+
+    await expect(assertPublicUrl('https://hooks.example.com/in')).rejects.toMatchObject({
+      statusCode: 400,
+      message: 'Webhook URL must point to a public address',
+    });
+  });
+
+  it('rejects URLs that cannot be parsed', async () => {
+    await expect(assertPublicUrl('not a url')).rejects.toMatchObject({ statusCode: 400 });
+  });
+});
@@ -0,0 +1,259 @@
+import crypto from 'crypto';
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import mongoose from 'mongoose';
+import { Webhook, IWebhook, WebhookEvent } from '../models/Webhook';
+import { WebhookDelivery, IWebhookDelivery, DeliveryStatus } from '../models/WebhookDelivery';
+import { User, IUser, UserRole } from '../models/User';
+import { AppError } from '../utils/AppError';
+import { isPublicAddress, pinnedLookup } from '../utils/network';
+import { logger } from '../utils/logger';
+import { subscribeToTaskEvents, subscribeToUserEvents, TaskEvent, UserEvent } from './eventBus';
+import { canViewTask } from './taskAccess';
+
+const MAX_ATTEMPTS = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '5', 10);
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+
+// How long a claimed delivery is reserved for the instance sending it
+const CLAIM_LEASE_MS = 60 * 1000;
+
+// Local development receivers can be allowed explicitly; never enable this in production
+const ALLOW_PRIVATE_URLS = process.env.WEBHOOK_ALLOW_PRIVATE_URLS === 'true';
+
+// Make sure a webhook URL only reaches public hosts, so webhooks cannot be used to probe the internal network.
+// Returns the checked addresses for the request to connect to, or null when private URLs are allowed.
+export const assertPublicUrl = async (url: string): Promise<dns.LookupAddress[] | null> => {
+  if (ALLOW_PRIVATE_URLS) {
+    return null;
+  }
+
+  let hostname: string;
+  try {
+    // Brackets around IPv6 literals are not part of the address
+    hostname = new URL(url).hostname.replace(/^\[|\]$/g, '');
+  } catch {
+    throw new AppError('Webhook URL must be a valid http or https URL', 400);
+  }
+
+  let addresses: dns.LookupAddress[];
+  try {
+    addresses = await dns.promises.lookup(hostname, { all: true, verbatim: true });
+  } catch {
+    throw new AppError(`Webhook host ${hostname} could not be resolved`, 400);
+  }
+
+  if (!addresses.length || addresses.some(({ address }) => !isPublicAddress(address))) {
+    throw new AppError('Webhook URL must point to a public address', 400);
+  }
+
+  return addresses;
+};
+
+// POST a payload and resolve with the response status. The connection goes to the checked addresses
+// rather than resolving the host again, and redirects are never followed.
+const postWebhook = (
+  url: string,
+  headers: Record<string, string>,
+  body: string,
+  addresses: dns.LookupAddress[] | null
+): Promise<number> => new Promise((resolve, reject) => {
+  const client = new URL(url).protocol === 'https:' ? https : http;
+
+  const request = client.request(url, {
+    method: 'POST',
+    headers: { ...headers, 'Content-Length': Buffer.byteLength(body).toString() },
+    lookup: addresses ? pinnedLookup(addresses) : undefined,
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  }, response => {
+    // Only the status matters; drain the body so the socket is released
+    response.resume();
+    response.on('end', () => resolve(response.statusCode || 0));
+    response.on('error', reject);
+  });
+
+  request.on('error', reject);
+  request.end(body);
+});
+
+export const generateWebhookSecret = (): string => crypto.randomBytes(32).toString('hex');
+
+// Signature over "<timestamp>.<body>" so receivers can reject replayed payloads
+export const signPayload = (secret: string, timestamp: string, body: string): string =>
+  crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+
+// Exponential backoff: 30s, 1m, 2m, 4m, ...
+const retryDelay = (attempts: number): number => BASE_RETRY_DELAY_MS * 2 ** (attempts - 1);
+
+// Try to send a delivery once; returns the delivery as it stands afterwards
+export const attemptDelivery = async (
+  deliveryId: mongoose.Types.ObjectId
+): Promise<IWebhookDelivery | null> => {
+  // Claim the delivery so no other sweep or instance sends it at the same time
+  const now = new Date();
+  const delivery = await WebhookDelivery.findOneAndUpdate(
+    { _id: deliveryId, status: DeliveryStatus.PENDING, nextAttemptAt: { $lte: now } },
+    { nextAttemptAt: new Date(now.getTime() + CLAIM_LEASE_MS) },
+    { new: true }
+  );
+  if (!delivery) {
+    return WebhookDelivery.findById(deliveryId);
+  }
+
+  const webhook = await Webhook.findById(delivery.webhook).select('+secret');
+  if (!webhook || !webhook.isActive) {
+    delivery.status = DeliveryStatus.FAILED;
+    delivery.lastError = 'Webhook is inactive or has been deleted';
+    return delivery.save();
+  }
+
+  // The host is resolved again before every attempt, since its DNS records can change after registration
+  let addresses: dns.LookupAddress[] | null;
+  try {
+    addresses = await assertPublicUrl(webhook.url);
+  } catch (error) {
+    delivery.status = DeliveryStatus.FAILED;
+    delivery.lastError = (error as Error).message;
+    return delivery.save();
+  }
+
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+
+  delivery.attempts += 1;
+
+  try {
+    const status = await postWebhook(webhook.url, {
+      'Content-Type': 'application/json',
+      'User-Agent': 'task-management-api-webhooks',
+      'X-Webhook-Id': webhook._id.toString(),
+      'X-Webhook-Delivery': delivery._id.toString(),
+      'X-Webhook-Event': delivery.event,
+      'X-Webhook-Timestamp': timestamp,
+      'X-Webhook-Signature': `sha256=${signPayload(webhook.secret, timestamp, body)}`,
+    }, body, addresses);
+
+    delivery.lastResponseStatus = status;
+    if (status >= 200 && status < 300) {
+      delivery.status = DeliveryStatus.SUCCEEDED;
+      delivery.deliveredAt = new Date();
+      delivery.lastError = undefined;
+      return delivery.save();
+    }
+    delivery.lastError = `Endpoint responded with HTTP ${status}`;
+  } catch (error) {
+    delivery.lastError = (error as Error).message;
+  }
+
+  if (delivery.attempts >= MAX_ATTEMPTS) {
+    delivery.status = DeliveryStatus.FAILED;
+    logger.warn(`Webhook delivery ${delivery._id} failed after ${delivery.attempts} attempts`);
+  } else {
+    delivery.nextAttemptAt = new Date(Date.now() + retryDelay(delivery.attempts));
+  }
+
+  return delivery.save();
+};
+
+// Record a delivery to be sent
+export const createDelivery = async (
+  webhook: Pick<IWebhook, '_id'>,
+  event: string,
+  data: Record<string, unknown>
+): Promise<IWebhookDelivery> => {
+  const deliveryId = new mongoose.Types.ObjectId();
+
+  return WebhookDelivery.create({
+    _id: deliveryId,
+    webhook: webhook._id,
+    event,
+    payload: {
+      id: deliveryId.toString(),
+      event,
+      timestamp: new Date().toISOString(),
+      data,
+    },
+  });
+};
+
+// Queue a delivery and make the first attempt without holding up the caller
+const enqueueDelivery = async (
+  webhook: Pick<IWebhook, '_id'>,
+  event: string,
+  data: Record<string, unknown>
+): Promise<void> => {
+  const delivery = await createDelivery(webhook, event, data);
+
+  setImmediate(() => {
+    attemptDelivery(delivery._id).catch(error => {
+      logger.error(`Webhook delivery ${delivery._id} failed:`, error);
+    });
+  });
+};
+
+// Retry deliveries whose backoff has elapsed, including ones left over from a restart
+export const retryPendingDeliveries = async (): Promise<number> => {
+  const due = await WebhookDelivery.find({
+    status: DeliveryStatus.PENDING,
+    nextAttemptAt: { $lte: new Date() },
+  })
+    .select('_id')
+    .limit(100);
+
+  for (const delivery of due) {
+    try {
+      await attemptDelivery(delivery._id);
+    } catch (error) {
+      logger.error(`Webhook delivery ${delivery._id} failed:`, error);
+    }
+  }
+
+  return due.length;
+};
+
+const activeWebhooksFor = (event: WebhookEvent) =>
+  Webhook.find({ events: event, isActive: true }).populate<{ owner: IUser | null }>('owner');
+
+// Deliver task events to webhooks whose owner can see the task
+const handleTaskEvent = async (event: TaskEvent): Promise<void> => {
+  if (event.type === 'task.assigned') {
+    return;
+  }
+
+  const webhooks = await activeWebhooksFor(event.type);
+
+  for (const webhook of webhooks) {
+    const owner = webhook.owner;
+    if (!owner?.isActive || !(await canViewTask(owner, event.task))) {
+      continue;
+    }
+
+    await enqueueDelivery(webhook, event.type, {
+      task: event.task.toJSON(),
+      actor: event.actorId.toString(),
+      changes: event.changes,
+    });
+  }
+};
+
+// User events are only delivered to webhooks owned by admins
+const handleUserEvent = async (event: UserEvent): Promise<void> => {
+  const webhooks = await activeWebhooksFor(event.type);
+
+  for (const webhook of webhooks) {
+    const owner = webhook.owner;
+    if (!owner?.isActive || owner.role !== UserRole.ADMIN) {
+      continue;
+    }
+
+    const user = await User.findById(event.user._id);
+    await enqueueDelivery(webhook, event.type, {
+      user: user ? user.toJSON() : { _id: event.user._id },
+      actor: event.actorId.toString(),
+    });
+  }
+};
+
+subscribeToTaskEvents(handleTaskEvent);
+subscribeToUserEvents(handleUserEvent);
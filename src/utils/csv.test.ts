@@ -0,0 +1,48 @@
+import { parseCsv, parseCsvRecords, toCsvRow } from './csv';
+
+describe('toCsvRow', () => {
+  it('quotes cells containing separators, quotes and line breaks', () => {
+    expect(toCsvRow(['plain', 'a,b', 'say "hi"', 'two\nlines'])).toBe('plain,"a,b","say ""hi""","two\nlines"\r\n');
+  });
+
+  it('writes empty cells for missing values and ISO strings for dates', () => {
+    expect(toCsvRow([null, undefined, new Date('2025-01-15T12:00:00.000Z'), 3])).toBe(',,2025-01-15T12:00:00.000Z,3\r\n');
+  });
+
+  it('guards cells a spreadsheet would run as formulas', () => {
+    expect(toCsvRow(['=SUM(A1:A2)', '+1', '-1', '@cmd'])).toBe("'=SUM(A1:A2),'+1,'-1,'@cmd\r\n");
+  });
+});
+
+describe('parseCsv', () => {
+  it('reads quoted cells and mixed line endings', () => {
+    expect(parseCsv('a,"b,c","say ""hi"""\r\n"two\nlines",x,\ny,z,w')).toEqual([
+      ['a', 'b,c', 'say "hi"'],
+      ['two\nlines', 'x', ''],
+      ['y', 'z', 'w'],
+    ]);
+  });
+
+  it('ignores a byte order mark and blank lines', () => {
+    expect(parseCsv('\uFEFFa,b\n\n ,\nc,d\n')).toEqual([['a', 'b'], ['c', 'd']]);
+  });
+});
+
+describe('parseCsvRecords', () => {
+  it('maps cells to trimmed header names', () => {
+    expect(parseCsvRecords(' title ,status\nWrite docs,pending\nShort row')).toEqual([
+      { title: 'Write docs', status: 'pending' },
+      { title: 'Short row', status: '' },
+    ]);
+  });
+
+  it('keeps a leading quote unless the file is recognised as guarded', () => {
+    const text = `title\r\n${toCsvRow(['=1+1'])}${toCsvRow(["'quoted"])}`;
+
+    expect(parseCsvRecords(text)).toEqual([{ title: "'=1+1" }, { title: "'quoted" }]);
+    expect(parseCsvRecords(text, columns => columns[0] === 'title')).toEqual([
+      { title: '=1+1' },
+      { title: "'quoted" },
+    ]);
+  });
+});
@@ -0,0 +1,103 @@
+// Minimal RFC 4180 CSV reading and writing
+
+// Spreadsheet apps run cells starting with these characters as formulas
+const FORMULA_PREFIXES = ['=', '+', '-', '@', '\t', '\r'];
+
+const escapeCell = (value: unknown): string => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  let text = value instanceof Date ? value.toISOString() : String(value);
+
+  if (FORMULA_PREFIXES.some(prefix => text.startsWith(prefix))) {
+    text = `'${text}`;
+  }
+
+  if (/[",\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+
+  return text;
+};
+
+// Undo the formula guard added by escapeCell
+const unescapeCell = (text: string): string =>
+  text.startsWith("'") && FORMULA_PREFIXES.includes(text[1]) ? text.slice(1) : text;
+
+export const toCsvRow = (values: unknown[]): string => `${values.map(escapeCell).join(',')}\r\n`;
+
+// Parse CSV text into rows of cells; quoted cells may contain commas, quotes and newlines
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  // Ignore a leading byte order mark
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter(cells => cells.some(value => value.trim() !== ''));
+};
+
+// Turn CSV text with a header line into one object per row. Cells keep a leading ' unless
+// isGuarded recognises the header as one written by toCsvRow, whose formula guard is then undone
+export const parseCsvRecords = (
+  text: string,
+  isGuarded: (columns: string[]) => boolean = () => false
+): Record<string, string>[] => {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) {
+    return [];
+  }
+
+  const columns = header.map(column => column.trim());
+  const unescape = isGuarded(columns) ? unescapeCell : (cell: string) => cell;
+
+  return rows.map(cells => {
+    const record: Record<string, string> = {};
+    columns.forEach((column, index) => {
+      record[column] = unescape(cells[index] ?? '');
+    });
+    return record;
+  });
+};
@@ -0,0 +1,40 @@
+import { buildCalendar, buildComponent, escapeText, formatDateTime } from './ical';
+
+describe('escapeText', () => {
+  it('escapes backslashes, separators and line breaks', () => {
+    expect(escapeText('a\\b;c,d\r\ne\nf')).toBe('a\\\\b\\;c\\,d\\ne\\nf');
+  });
+});
+
+describe('formatDateTime', () => {
+  it('formats UTC date-times without separators or milliseconds', () => {
+    expect(formatDateTime(new Date('2025-01-15T23:59:59.123Z'))).toBe('20250115T235959Z');
+  });
+});
+
+describe('buildCalendar', () => {
+  it('wraps components with CRLF line endings', () => {
+    const calendar = buildCalendar('My tasks', [buildComponent('VEVENT', [['UID', 'task-1'], ['SUMMARY', 'Ship']])]);
+
+    expect(calendar.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true);
+    expect(calendar).toContain('\r\nX-WR-CALNAME:My tasks\r\n');
+    expect(calendar).toContain('\r\nBEGIN:VEVENT\r\nUID:task-1\r\nSUMMARY:Ship\r\nEND:VEVENT\r\n');
+    expect(calendar.endsWith('END:VCALENDAR\r\n')).toBe(true);
+  });
+
+  it('folds lines longer than 75 octets without splitting characters', () => {
+    const summary = 'é'.repeat(60);
+    const calendar = buildCalendar('Tasks', [buildComponent('VEVENT', [['SUMMARY', summary]])]);
+    const lines = calendar.split('\r\n');
+    const start = lines.findIndex(line => line.startsWith('SUMMARY:'));
+
+    expect(lines[start + 1].startsWith(' ')).toBe(true);
+    for (const line of lines) {
+      expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75);
+    }
+
+    // Unfolding restores the original line
+    const unfolded = calendar.replace(/\r\n /g, '');
+    expect(unfolded).toContain(`SUMMARY:${summary}\r\n`);
+  });
+});
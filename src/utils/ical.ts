@@ -0,0 +1,59 @@
+// Helpers for writing iCalendar (RFC 5545) documents
+
+export type ICalProperty = [name: string, value: string];
+
+// Escape a TEXT value
+export const escapeText = (value: string): string =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r\n|\r|\n/g, '\\n');
+
+// UTC DATE-TIME, e.g. 20250115T235959Z
+export const formatDateTime = (date: Date): string =>
+  date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// Lines longer than 75 octets are folded onto continuation lines starting with a space
+const foldLine = (line: string): string => {
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+
+  for (const char of line) {
+    const bytes = Buffer.byteLength(char);
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + bytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+};
+
+export const buildComponent = (name: string, properties: ICalProperty[]): string[] => [
+  `BEGIN:${name}`,
+  ...properties.map(([key, value]) => `${key}:${value}`),
+  `END:${name}`,
+];
+
+// Wrap components in a VCALENDAR with CRLF line endings
+export const buildCalendar = (name: string, components: string[][]): string => {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Task Management API//Tasks//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    ...components.flat(),
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
@@ -0,0 +1,59 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { isPublicAddress, pinnedLookup } from './network';
+
+describe('isPublicAddress', () => {
+  it('rejects loopback, private and mapped private addresses', () => {
+    expect(isPublicAddress('127.0.0.1')).toBe(false);
+    expect(isPublicAddress('10.1.2.3')).toBe(false);
+    expect(isPublicAddress('::1')).toBe(false);
+    expect(isPublicAddress('::ffff:192.168.0.1')).toBe(false);
+    expect(isPublicAddress('::ffff:c0a8:1')).toBe(false);
+    expect(isPublicAddress('0:0:0:0:0:ffff:7f00:1')).toBe(false);
+    expect(isPublicAddress('not-an-ip')).toBe(false);
+  });
+
+  it('accepts public addresses', () => {
+    expect(isPublicAddress('93.184.216.34')).toBe(true);
+    expect(isPublicAddress('::ffff:93.184.216.34')).toBe(true);
+    expect(isPublicAddress('::ffff:5db8:d822')).toBe(true);
+    expect(isPublicAddress('2606:2800:220:1:248:1893:25c8:1946')).toBe(true);
+  });
+});
+
+describe('pinnedLookup', () => {
+  const addresses = [{ address: '127.0.0.1', family: 4 }];
+
+  it('answers every lookup with the pinned addresses', () => {
+    const lookup = pinnedLookup(addresses);
+    const single = jest.fn();
+    const all = jest.fn();
+
+    lookup('anything.example', {}, single);
+    lookup('anything.example', { all: true }, all);
+
+    expect(single).toHaveBeenCalledWith(null, '127.0.0.1', 4);
+    expect(all).toHaveBeenCalledWith(null, addresses);
+  });
+
+  it('connects to the pinned address whatever the host name resolves to', async () => {
+    const server = http.createServer((req, res) => res.end(req.headers.host));
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      // The .invalid TLD never resolves, so the request can only succeed through the pinned address
+      const host = await new Promise<string>((resolve, reject) => {
+        http.get(`http://webhook.invalid:${port}/`, { lookup: pinnedLookup(addresses) }, res => {
+          let body = '';
+          res.on('data', chunk => { body += chunk; });
+          res.on('end', () => resolve(body));
+        }).on('error', reject);
+      });
+
+      expect(host).toBe(`webhook.invalid:${port}`);
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+});
@@ -0,0 +1,78 @@
+import dns from 'dns';
+import net from 'net';
+
+// Loopback, private, link-local and other ranges that must not be reachable through user-supplied URLs
+const blockList = new net.BlockList();
+
+for (const [prefix, bits] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  blockList.addSubnet(prefix, bits, 'ipv4');
+}
+
+for (const [prefix, bits] of [
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  blockList.addSubnet(prefix, bits, 'ipv6');
+}
+
+// IPv4-mapped IPv6 addresses (::ffff:a.b.c.d). Kept out of blockList, which would match every IPv4 address against it.
+const mappedRange = new net.BlockList();
+mappedRange.addSubnet('::ffff:0:0', 96, 'ipv6');
+
+// The IPv4 address an IPv4-mapped address stands for, whether written in dotted or hex form
+const mappedIPv4 = (address: string): string => {
+  const dotted = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (dotted) {
+    return dotted[1];
+  }
+
+  // The URL parser normalises the address to its short hex form, ending in the two groups of the IPv4 address
+  const [high, low] = new URL(`http://[${address}]`).hostname.replace(/\]$/, '').split(':').slice(-2)
+    .map(group => parseInt(group, 16));
+  return [high >> 8, high & 0xff, low >> 8, low & 0xff].join('.');
+};
+
+// Whether an IP address is a public unicast address
+export const isPublicAddress = (address: string): boolean => {
+  const family = net.isIP(address);
+  if (family === 0) {
+    return false;
+  }
+
+  if (family === 6) {
+    // IPv4-mapped addresses are checked as the IPv4 address they stand for
+    if (mappedRange.check(address, 'ipv6')) {
+      return isPublicAddress(mappedIPv4(address));
+    }
+    return !blockList.check(address, 'ipv6');
+  }
+
+  return !blockList.check(address, 'ipv4');
+};
+
+// DNS lookup for outgoing requests that only ever connects to addresses resolved and checked earlier,
+// so the host cannot be re-pointed at another address between the check and the connection
+export const pinnedLookup = (addresses: dns.LookupAddress[]): net.LookupFunction =>
+  (_hostname, options, callback) => {
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  };
@@ -0,0 +1,63 @@
+import mongoose from 'mongoose';
+import { SortSpec, decodeCursor, encodeCursor } from './pagination';
+
+const sort: SortSpec = [['dueDate', 1], ['priority', -1]];
+
+// Build a cursor the way a client could, bypassing encodeCursor
+const forge = (payload: unknown): string => Buffer.from(JSON.stringify(payload)).toString('base64url');
+
+describe('cursors', () => {
+  const id = new mongoose.Types.ObjectId();
+
+  it('round-trips dates, strings, numbers and nulls', () => {
+    const dueDate = new Date('2025-01-15T12:00:00.000Z');
+    const cursor = encodeCursor({ _id: id, dueDate, priority: 'high' }, sort);
+
+    const decoded = decodeCursor(cursor, sort);
+    expect(decoded.values).toEqual([dueDate, 'high']);
+    expect(decoded.id.equals(id)).toBe(true);
+
+    expect(decodeCursor(encodeCursor({ _id: id, dueDate: null, priority: 3 }, sort), sort).values).toEqual([null, 3]);
+  });
+
+  it('stores object IDs as strings', () => {
+    const project = new mongoose.Types.ObjectId();
+    const cursor = encodeCursor({ _id: id, project }, [['project', 1]]);
+
+    expect(decodeCursor(cursor, [['project', 1]]).values).toEqual([project.toString()]);
+  });
+
+  it('rejects cursors issued for another sort order', () => {
+    const cursor = encodeCursor({ _id: id, dueDate: null, priority: 'high' }, sort);
+
+    expect(() => decodeCursor(cursor, [['dueDate', -1], ['priority', -1]])).toThrow(
+      'Cursor does not match the requested sort order'
+    );
+  });
+
+  it('rejects cursors that are not valid payloads', () => {
+    expect(() => decodeCursor('not a cursor', sort)).toThrow('Invalid cursor');
+    expect(() => decodeCursor(forge({ s: 'dueDate:1,priority:-1', v: [null], id: id.toString() }), sort))
+      .toThrow('Invalid cursor');
+    expect(() => decodeCursor(forge({ s: 'dueDate:1,priority:-1', v: [null, null], id: 'abc' }), sort))
+      .toThrow('Invalid cursor');
+  });
+
+  it.each([
+    ['query operators', { $ne: null }],
+    ['a date next to other keys', { $date: '2025-01-15T12:00:00.000Z', $gt: '' }],
+    ['an invalid date', { $date: 'yesterday' }],
+    ['arrays', ['a', 'b']],
+  ])('rejects forged values containing %s', (_label, value) => {
+    const cursor = forge({ s: 'dueDate:1,priority:-1', v: [value, null], id: id.toString() });
+
+    expect(() => decodeCursor(cursor, sort)).toThrow(expect.objectContaining({ message: 'Invalid cursor', statusCode: 400 }));
+  });
+
+  it('rejects non-finite numbers', () => {
+    // JSON.stringify cannot produce these, but JSON.parse reads 1e999 as Infinity
+    const cursor = Buffer.from(`{"s":"dueDate:1,priority:-1","v":[1e999,null],"id":"${id}"}`).toString('base64url');
+
+    expect(() => decodeCursor(cursor, sort)).toThrow('Invalid cursor');
+  });
+});
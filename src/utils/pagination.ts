@@ -0,0 +1,247 @@
+import mongoose, { Model, PopulateOptions } from 'mongoose';
+import { AppError } from './AppError';
+
+export type SortDirection = 1 | -1;
+export type SortSpec = Array<[string, SortDirection]>;
+
+export interface PaginateOptions {
+  // Sort keys in priority order; _id is always appended as a tiebreaker
+  sort: SortSpec;
+  // Fields a client may request with ?fields=
+  selectableFields: string[];
+  // Projection used when ?fields= is not given
+  defaultSelect?: string;
+  populate?: PopulateOptions[];
+  defaultLimit?: number;
+  maxLimit?: number;
+}
+
+// Pagination parameters, raw from the query string or already converted by Joi
+export interface PageQuery {
+  page?: unknown;
+  limit?: unknown;
+  after?: unknown;
+  fields?: unknown;
+  count?: unknown;
+}
+
+export interface PaginationInfo {
+  mode: 'page' | 'cursor';
+  limit: number;
+  page?: number;
+  total?: number;
+  pages?: number;
+  hasMore: boolean;
+  nextCursor: string | null;
+}
+
+export interface PaginatedResult<T> {
+  items: T[];
+  pagination: PaginationInfo;
+}
+
+interface CursorPayload {
+  // Sort the cursor was issued for, so it cannot be replayed against a different order
+  s: string;
+  v: unknown[];
+  id: string;
+}
+
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 100;
+
+const sortSignature = (sort: SortSpec): string =>
+  sort.map(([field, direction]) => `${field}:${direction}`).join(',');
+
+// Dates survive the JSON round trip tagged, everything else is stored as-is
+const encodeValue = (value: unknown): unknown => {
+  if (value instanceof Date) {
+    return { $date: value.toISOString() };
+  }
+  if (value instanceof mongoose.Types.ObjectId) {
+    return value.toString();
+  }
+  return value ?? null;
+};
+
+// Only plain values may come back from a cursor; anything else could smuggle query operators into the filter
+const decodeValue = (value: unknown): unknown => {
+  if (value === null || typeof value === 'string' || typeof value === 'boolean') {
+    return value;
+  }
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return value;
+  }
+
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    const keys = Object.keys(value);
+    const date = (value as { $date?: unknown }).$date;
+    if (keys.length === 1 && keys[0] === '$date' && typeof date === 'string') {
+      const decoded = new Date(date);
+      if (!Number.isNaN(decoded.getTime())) {
+        return decoded;
+      }
+    }
+  }
+
+  throw new AppError('Invalid cursor', 400);
+};
+
+export const encodeCursor = (doc: any, sort: SortSpec): string => {
+  const payload: CursorPayload = {
+    s: sortSignature(sort),
+    v: sort.map(([field]) => encodeValue(doc.get ? doc.get(field) : doc[field])),
+    id: doc._id.toString(),
+  };
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+};
+
+export const decodeCursor = (cursor: string, sort: SortSpec): { values: unknown[]; id: mongoose.Types.ObjectId } => {
+  let payload: CursorPayload;
+  try {
+    payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new AppError('Invalid cursor', 400);
+  }
+
+  if (
+    !payload ||
+    !Array.isArray(payload.v) ||
+    payload.v.length !== sort.length ||
+    !mongoose.isValidObjectId(payload.id)
+  ) {
+    throw new AppError('Invalid cursor', 400);
+  }
+
+  if (payload.s !== sortSignature(sort)) {
+    throw new AppError('Cursor does not match the requested sort order', 400);
+  }
+
+  return {
+    values: payload.v.map(decodeValue),
+    id: new mongoose.Types.ObjectId(payload.id),
+  };
+};
+
+// Condition for "field comes after value" in the given direction; nulls sort first ascending, last descending
+const afterValue = (field: string, value: unknown, direction: SortDirection): any | null => {
+  if (value === null) {
+    return direction === 1 ? { [field]: { $ne: null } } : null;
+  }
+  if (direction === 1) {
+    return { [field]: { $gt: value } };
+  }
+  return { $or: [{ [field]: { $lt: value } }, { [field]: null }] };
+};
+
+// Keyset condition: (k1 > v1) OR (k1 = v1 AND k2 > v2) OR ... OR (all equal AND _id > id)
+const buildCursorFilter = (sort: SortSpec, values: unknown[], id: mongoose.Types.ObjectId): any => {
+  const keys: SortSpec = [...sort, ['_id', sort.length ? sort[sort.length - 1][1] : 1]];
+  const allValues = [...values, id];
+  const branches: any[] = [];
+
+  keys.forEach(([field, direction], index) => {
+    const condition = afterValue(field, allValues[index], direction);
+    if (!condition) {
+      return;
+    }
+
+    const equalities = keys.slice(0, index).map(([prevField], prevIndex) => ({
+      [prevField]: allValues[prevIndex],
+    }));
+    branches.push(equalities.length ? { $and: [...equalities, condition] } : condition);
+  });
+
+  // Nothing can come after the cursor
+  return branches.length ? { $or: branches } : { _id: { $exists: false } };
+};
+
+const parseFields = (fields: unknown, sort: SortSpec, selectableFields: string[]): string | undefined => {
+  if (fields === undefined || fields === '') {
+    return undefined;
+  }
+
+  const requested = String(fields)
+    .split(',')
+    .map(field => field.trim())
+    .filter(Boolean);
+
+  const unknown = requested.filter(field => !selectableFields.includes(field));
+  if (unknown.length) {
+    throw new AppError(`Unknown fields: ${unknown.join(', ')}. Allowed: ${selectableFields.join(', ')}`, 400);
+  }
+
+  // Sort keys are always included so the next cursor can be built
+  return Array.from(new Set([...requested, ...sort.map(([field]) => field)])).join(' ');
+};
+
+// Run a paginated find; supports ?page= (offset), ?after= (cursor), ?limit=, ?fields= and ?count=false
+export const paginate = async <T>(
+  model: Model<T>,
+  filter: any,
+  query: PageQuery,
+  options: PaginateOptions
+): Promise<PaginatedResult<T>> => {
+  const { sort, selectableFields, defaultSelect, populate } = options;
+  const maxLimit = options.maxLimit ?? MAX_LIMIT;
+
+  const requestedLimit = parseInt(String(query.limit), 10);
+  const limit = Math.min(Math.max(requestedLimit || options.defaultLimit || DEFAULT_LIMIT, 1), maxLimit);
+  const includeCount = String(query.count) !== 'false';
+  const after = typeof query.after === 'string' && query.after ? query.after : undefined;
+  const page = after ? undefined : Math.max(parseInt(String(query.page), 10) || 1, 1);
+
+  const select = parseFields(query.fields, sort, selectableFields) ?? defaultSelect;
+
+  const sortObject: Record<string, SortDirection> = {};
+  for (const [field, direction] of sort) {
+    sortObject[field] = direction;
+  }
+  sortObject._id = sort.length ? sort[sort.length - 1][1] : 1;
+
+  let findFilter = filter;
+  if (after) {
+    const { values, id } = decodeCursor(after, sort);
+    findFilter = {
+      ...filter,
+      $and: [...(filter.$and || []), buildCursorFilter(sort, values, id)],
+    };
+  }
+
+  // Fetch one extra document to learn whether there is another page
+  let find = model.find(findFilter).sort(sortObject).limit(limit + 1);
+  if (page) {
+    find = find.skip((page - 1) * limit);
+  }
+  if (select) {
+    find = find.select(select);
+  }
+  if (populate) {
+    find = find.populate(populate);
+  }
+
+  const docs = await find;
+  const hasMore = docs.length > limit;
+  const items = hasMore ? docs.slice(0, limit) : docs;
+
+  const pagination: PaginationInfo = {
+    mode: after ? 'cursor' : 'page',
+    limit,
+    hasMore,
+    nextCursor: hasMore ? encodeCursor(items[items.length - 1], sort) : null,
+  };
+
+  if (page) {
+    pagination.page = page;
+  }
+
+  if (includeCount) {
+    const total = await model.countDocuments(filter);
+    pagination.total = total;
+    if (page) {
+      pagination.pages = Math.ceil(total / limit);
+    }
+  }
+
+  return { items: items as T[], pagination };
+};
@@ -0,0 +1,69 @@
+import { rankAfter, rankBetween, rankForTime } from './rank';
+
+describe('rankBetween', () => {
+  it('ranks between two neighbours', () => {
+    const rank = rankBetween('a', 'c');
+
+    expect(rank > 'a' && rank < 'c').toBe(true);
+  });
+
+  it('ranks at the start and end of a list', () => {
+    expect(rankBetween(null, 'b') < 'b').toBe(true);
+    expect(rankBetween('b', null) > 'b').toBe(true);
+    expect(rankBetween(null, null)).toEqual(expect.any(String));
+  });
+
+  it('grows the rank when neighbours are adjacent', () => {
+    const rank = rankBetween('a', 'b');
+
+    expect(rank > 'a' && rank < 'b').toBe(true);
+    expect(rank.length).toBeGreaterThan(1);
+  });
+
+  it('keeps finding room after repeated inserts at the same place', () => {
+    let before = 'a';
+    const after = 'b';
+
+    for (let i = 0; i < 200; i++) {
+      const rank = rankBetween(before, after);
+      expect(rank > before && rank < after).toBe(true);
+      expect(rank.endsWith('0')).toBe(false);
+      before = rank;
+    }
+  });
+
+  it('keeps finding room when inserting before the first card', () => {
+    let first = 'a';
+
+    for (let i = 0; i < 200; i++) {
+      const rank = rankBetween(null, first);
+      expect(rank < first && rank > '').toBe(true);
+      first = rank;
+    }
+  });
+
+  it('rejects neighbours that are out of order', () => {
+    expect(() => rankBetween('c', 'a')).toThrow('Cannot rank between "c" and "a"');
+    expect(() => rankBetween('a', 'a')).toThrow();
+  });
+});
+
+describe('rankAfter', () => {
+  it('uses the timestamp when it sorts after the last card', () => {
+    const time = new Date('2025-01-15T12:00:00.000Z');
+
+    expect(rankAfter(null, time)).toBe(rankForTime(time));
+    expect(rankAfter('0', time)).toBe(rankForTime(time));
+  });
+
+  it('ranks after the last card when its rank is ahead of the clock', () => {
+    const rank = rankAfter('zz', new Date('2025-01-15T12:00:00.000Z'));
+
+    expect(rank > 'zz').toBe(true);
+  });
+
+  it('orders timestamp ranks by time', () => {
+    expect(rankForTime(new Date('2025-01-15T12:00:00.000Z')) < rankForTime(new Date('2025-01-15T12:00:01.000Z')))
+      .toBe(true);
+  });
+});
@@ -0,0 +1,49 @@
+// Fractional ranks: strings over 0-9a-z that sort in the same order as their values,
+// so a card can always be placed between two others by changing only its own rank.
+const DIGITS = '0123456789abcdefghijklmnopqrstuvwxyz';
+
+// A key strictly between a ('' = the start) and b (null = the end); keys never end in '0'
+const midpoint = (a: string, b: string | null): string => {
+  if (b !== null) {
+    // Copy the common prefix, treating a as padded with zeros
+    let n = 0;
+    while ((a[n] || '0') === b[n]) {
+      n++;
+    }
+    if (n > 0) {
+      return b.slice(0, n) + midpoint(a.slice(n), b.slice(n));
+    }
+  }
+
+  const digitA = a ? DIGITS.indexOf(a[0]) : 0;
+  const digitB = b !== null ? DIGITS.indexOf(b[0]) : DIGITS.length;
+
+  if (digitB - digitA > 1) {
+    return DIGITS[Math.round((digitA + digitB) / 2)];
+  }
+
+  // The first digits are adjacent, so the key has to be longer
+  if (b !== null && b.length > 1) {
+    return b.slice(0, 1);
+  }
+  return DIGITS[digitA] + midpoint(a.slice(1), null);
+};
+
+// Rank between two neighbours; null means the start or end of the list
+export const rankBetween = (before: string | null, after: string | null): string => {
+  if (before !== null && after !== null && before >= after) {
+    throw new Error(`Cannot rank between "${before}" and "${after}"`);
+  }
+  return midpoint(before || '', after);
+};
+
+// Fixed-width base-36 timestamp, without trailing zeros so other ranks can still be placed before it
+export const rankForTime = (time: Date): string =>
+  time.getTime().toString(36).padStart(9, '0').replace(/0+$/, '');
+
+// Rank after the last card of a list. Cards appended later get later timestamps,
+// which keeps ranks short instead of growing with every card added to the end.
+export const rankAfter = (last: string | null, time: Date = new Date()): string => {
+  const timeRank = rankForTime(time);
+  return last === null || timeRank > last ? timeRank : rankBetween(last, null);
+};